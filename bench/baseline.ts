@@ -0,0 +1,48 @@
+import type { NextFunction, Response } from "express";
+import type { ZodType } from "zod";
+import type { ValidationRequest } from "../src/index";
+
+type ValidationKey = "headers" | "params" | "query" | "body";
+
+/**
+ * `validate()` of the baseline release, before the sync fast path, kept
+ * verbatim for the benchmarks
+ */
+export const baselineValidate =
+  (
+    props: Partial<Record<ValidationKey, ZodType>>,
+    options?: Parameters<ZodType["parse"]>[1],
+  ) =>
+  async (req: ValidationRequest, _: Response, next: NextFunction) => {
+    try {
+      req.validationConfigs ??= {};
+      req.validationErrors ??= {};
+      req.validationValues ??= {};
+
+      const { throwErrors = false, overwriteRequest = false } =
+        req.validationConfigs;
+
+      for (const [key, schema] of Object.entries(props) as [
+        ValidationKey,
+        ZodType,
+      ][]) {
+        if (!schema) continue;
+
+        const result = await schema.safeParseAsync(req[key], options);
+
+        if (result.success) {
+          delete req.validationErrors[key];
+          req.validationValues[key] = result.data;
+          if (overwriteRequest) req[key] = result.data as never;
+        } else {
+          req.validationErrors[key] = result.error;
+          delete req.validationValues[key];
+          if (throwErrors) return next(result.error);
+        }
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
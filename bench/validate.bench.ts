@@ -0,0 +1,78 @@
+import type { Response } from "express";
+import { bench, describe } from "vitest";
+import { z } from "zod";
+import { validate, type ValidationRequest } from "../src/index";
+import { baselineValidate } from "./baseline";
+
+/** Schemas of a typical route, made of built-in types and checks only */
+const synchronous = {
+  params: z.object({ id: z.uuid() }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    sort: z.enum(["createdAt", "title"]).optional(),
+    search: z.string().trim().toLowerCase().max(100).optional(),
+  }),
+  headers: z.object({
+    authorization: z.string().startsWith("Bearer "),
+    "x-request-id": z.string().optional(),
+  }),
+  body: z.object({
+    title: z.string().trim().min(1).max(200),
+    email: z.email(),
+    tags: z.array(z.string().min(1)).max(10).default([]),
+    status: z.enum(["draft", "published"]).default("draft"),
+    author: z.object({ name: z.string(), url: z.url().optional() }),
+  }),
+};
+
+/** The same schemas with callbacks, parsed with `safeParseAsync` */
+const withCallbacks = {
+  ...synchronous,
+  query: synchronous.query.extend({ archived: z.stringbool().optional() }),
+  body: synchronous.body.refine(
+    ({ tags }) => new Set(tags).size === tags.length,
+  ),
+};
+
+const createRequest = () =>
+  ({
+    params: { id: "0b8f0f0e-3a3c-4b8e-9a51-56d1c2f2d7a4" },
+    query: { page: "2", limit: "50", search: " Zod ", archived: "false" },
+    headers: { authorization: "Bearer token", "x-request-id": "abc" },
+    body: {
+      title: " Hello ",
+      email: "ada@example.com",
+      tags: ["a", "b"],
+      author: { name: "Ada", url: "https://example.com" },
+    },
+  }) as unknown as ValidationRequest;
+
+const res = {} as Response;
+const next = () => {};
+
+describe("validate() with synchronous schemas", () => {
+  const baseline = baselineValidate(synchronous);
+  const current = validate(synchronous);
+
+  bench("baseline (safeParseAsync per part)", async () => {
+    await baseline(createRequest(), res, next);
+  });
+
+  bench("current (sync fast path)", async () => {
+    await current(createRequest(), res, next);
+  });
+});
+
+describe("validate() with refinements and transforms", () => {
+  const baseline = baselineValidate(withCallbacks);
+  const current = validate(withCallbacks);
+
+  bench("baseline (safeParseAsync per part)", async () => {
+    await baseline(createRequest(), res, next);
+  });
+
+  bench("current (safeParseAsync for the parts with callbacks)", async () => {
+    await current(createRequest(), res, next);
+  });
+});
@@ -0,0 +1,149 @@
+import type { ZodType } from "zod";
+import type { SchemaFactory } from "./context";
+import { mergeConfigs } from "./core";
+import type {
+  ValidationKey,
+  ValidationOptions,
+  ValidationProps,
+  ValidationRequest,
+} from "./validate";
+
+export interface RequestViewInit<N> {
+  /** Request or context object of the framework */
+  native: N;
+  method: string;
+  /** Path and query string of the request */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Route pattern, e.g. `/users/:id`, reported to hooks */
+  route?: string;
+}
+
+/**
+ * Request of another framework as seen by schema factories, hooks and
+ * `validationContext()`: only the members below exist, the framework object
+ * being available as `native`.
+ */
+export interface RequestView<N> extends ValidationRequest {
+  native: N;
+}
+
+const views = new WeakMap<object, RequestView<unknown>>();
+
+/** View of `native`, created once per request */
+export const viewOf = <N extends object>(
+  native: N,
+  init: (native: N) => RequestViewInit<N>,
+): RequestView<N> => {
+  let view = views.get(native) as RequestView<N> | undefined;
+  if (!view) {
+    const { method, url, headers, route } = init(native);
+    const get = (name: string) => {
+      const value = headers[name.toLowerCase()];
+      return Array.isArray(value) ? value.join(", ") : value;
+    };
+
+    view = {
+      native,
+      method,
+      url,
+      originalUrl: url,
+      baseUrl: "",
+      headers,
+      route: route === undefined ? undefined : { path: route },
+      get,
+      header: get,
+      validationErrors: {},
+      validationValues: {},
+    } as unknown as RequestView<N>;
+    views.set(native, view);
+  }
+  return view;
+};
+
+/** Parses a `Cookie` header, for frameworks without cookie parsing */
+export const parseCookies = (header: string | undefined) =>
+  Object.fromEntries(
+    (header ?? "")
+      .split(";")
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const index = pair.indexOf("=");
+        const name = index === -1 ? pair : pair.slice(0, index);
+        const value = index === -1 ? "" : pair.slice(index + 1);
+        try {
+          return [name, decodeURIComponent(value.replace(/^"|"$/g, ""))];
+        } catch {
+          return [name, value];
+        }
+      }),
+  ) as Record<string, string>;
+
+/** Overwrites a part on the view only, for requests that cannot be changed */
+export const overwriteView = (
+  req: ValidationRequest,
+  key: ValidationKey,
+  value: unknown,
+) => {
+  Object.defineProperty(req, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: true,
+  });
+};
+
+type Schema = ZodType | SchemaFactory;
+
+/**
+ * Middleware types of the adapters validating the schemas `P`, added by each
+ * adapter through declaration merging
+ */
+export interface AdapterMiddlewares<P extends ValidationProps> {}
+
+/**
+ * Builds the `validate*` functions of an adapter from its `validate`, sharing
+ * default configs and parse options like `createValidator`.
+ */
+export const createAdapterValidator =
+  <K extends keyof AdapterMiddlewares<ValidationProps>>(
+    validate: <P extends ValidationProps>(
+      props: P,
+      options?: ValidationOptions,
+    ) => AdapterMiddlewares<P>[K],
+  ) =>
+  (defaults: ValidationOptions = {}) => {
+    const validateWith = <P extends ValidationProps>(
+      props: P,
+      options?: ValidationOptions,
+    ) => validate(props, { ...defaults, ...mergeConfigs(options) });
+
+    return {
+      validate: validateWith,
+      validateHeaders: <T extends Schema>(
+        headers: T,
+        options?: ValidationOptions,
+      ) => validateWith({ headers }, options),
+      validateParams: <T extends Schema>(
+        params: T,
+        options?: ValidationOptions,
+      ) => validateWith({ params }, options),
+      validateQuery: <T extends Schema>(
+        query: T,
+        options?: ValidationOptions,
+      ) => validateWith({ query }, options),
+      validateBody: <T extends Schema>(body: T, options?: ValidationOptions) =>
+        validateWith({ body }, options),
+      validateCookies: <T extends Schema>(
+        cookies: T,
+        options?: ValidationOptions,
+      ) => validateWith({ cookies }, options),
+      validateFile: <T extends Schema>(file: T, options?: ValidationOptions) =>
+        validateWith({ file }, options),
+      validateFiles: <T extends Schema>(
+        files: T,
+        options?: ValidationOptions,
+      ) => validateWith({ files }, options),
+    };
+  };
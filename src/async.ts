@@ -0,0 +1,76 @@
+import type { ZodType } from "zod";
+
+// Callbacks of refinements, transforms and custom schemas, which may return
+// promises without being `async`
+const callbackKeys = new Set(["fn", "transform", "reverseTransform"]);
+const asyncTypes = new Set(["lazy", "promise"]);
+
+const isSchema = (value: unknown): value is { _zod: { def: object } } =>
+  typeof value === "object" && value !== null && "_zod" in value;
+
+/**
+ * Tells whether a schema may parse asynchronously, walking its definition
+ * once. Refinements, transforms and custom schemas may return promises
+ * without being `async`, and lazy schemas are not expanded, so only the
+ * schemas without them are proven synchronous.
+ */
+export const mayBeAsync = (schema: ZodType): boolean => {
+  const visited = new Set<object>();
+  const visit = (value: unknown, key?: string): boolean => {
+    if (typeof value === "function") return !!key && callbackKeys.has(key);
+    if (typeof value !== "object" || value === null || visited.has(value)) {
+      return false;
+    }
+    visited.add(value);
+
+    if (isSchema(value)) {
+      const def = value._zod.def as Record<string, unknown> & { type: string };
+      if (asyncTypes.has(def.type)) return true;
+
+      // Other getters of definitions compute values, e.g. `defaultValue`
+      // calling the factory of `.default(fn)`, and are not read. The getter of
+      // `shape` lets objects reference each other.
+      return Object.entries(Object.getOwnPropertyDescriptors(def)).some(
+        ([name, { get }]) =>
+          (!get || name === "shape") && visit(def[name], name),
+      );
+    }
+    if (Array.isArray(value)) return value.some((item) => visit(item));
+    return Object.entries(value).some(([name, item]) => visit(item, name));
+  };
+
+  return visit(schema);
+};
+
+export interface CompiledSchema {
+  schema: ZodType;
+  async: boolean;
+}
+
+export const compileSchema = (schema: ZodType): CompiledSchema => ({
+  schema,
+  async: mayBeAsync(schema),
+});
+
+/**
+ * Parses with `safeParse` when the schema is proven synchronous. Returns
+ * `undefined` otherwise, without calling any of its callbacks, so that they
+ * never run twice.
+ */
+export const parseSync = (
+  compiled: CompiledSchema,
+  input: unknown,
+  options?: Parameters<ZodType["safeParse"]>[1],
+) => (compiled.async ? undefined : compiled.schema.safeParse(input, options));
+
+/**
+ * Parses with `safeParse` when the schema is proven synchronous, with
+ * `safeParseAsync` otherwise.
+ */
+export const parseSchema = (
+  compiled: CompiledSchema,
+  input: unknown,
+  options?: Parameters<ZodType["safeParse"]>[1],
+) =>
+  parseSync(compiled, input, options) ??
+  compiled.schema.safeParseAsync(input, options);
@@ -0,0 +1,402 @@
+import {
+  generateOpenApi,
+  type OpenApiConfigs,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type RouterLike,
+} from "./openapi";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface ClientGeneratorConfigs extends Pick<OpenApiConfigs, "mounts"> {
+  /**
+   * Embeds the request and response schemas, as JSON Schema, so the client
+   * can validate inputs before sending them and parse responses. The generated
+   * client then imports `zod`.
+   *
+   * The schemas are rebuilt from JSON Schema, which cannot express
+   * refinements, transforms or custom checks: the client only checks the
+   * shape and the built-in constraints, the server still checking the rest.
+   */
+  validation?: boolean;
+}
+
+const parameterParts: Partial<Record<OpenApiParameter["in"], string>> = {
+  path: "params",
+  query: "query",
+  header: "headers",
+};
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+const toPascalCase = (value: string) =>
+  value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+
+/** `get /posts/{id}/comments` becomes `getPostsByIdComments` */
+const toOperationName = (method: string, path: string) =>
+  method +
+  path
+    .split("/")
+    .map((segment) => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? `By${toPascalCase(param[1])}` : toPascalCase(segment);
+    })
+    .join("");
+
+const toKey = (key: string) =>
+  identifier.test(key) ? key : JSON.stringify(key);
+
+const group = (type: string) => (/[|&]/.test(type) ? `(${type})` : type);
+
+/** Prints the TypeScript type of a JSON Schema, as generated by Zod */
+const toType = (schema: unknown, indent = ""): string => {
+  if (typeof schema !== "object" || schema === null) return "unknown";
+  const json = schema as JsonSchema;
+
+  if ("const" in json) return JSON.stringify(json.const);
+  if (Array.isArray(json.enum)) {
+    return json.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  if (Array.isArray(json.anyOf) || Array.isArray(json.oneOf)) {
+    const members = (json.anyOf ?? json.oneOf) as unknown[];
+    return members.map((member) => group(toType(member, indent))).join(" | ");
+  }
+  if (Array.isArray(json.allOf)) {
+    return json.allOf
+      .map((member) => group(toType(member, indent)))
+      .join(" & ");
+  }
+  if (Array.isArray(json.type)) {
+    return json.type
+      .map((type) => toType({ ...json, type }, indent))
+      .join(" | ");
+  }
+
+  switch (json.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      if (Array.isArray(json.prefixItems)) {
+        const items = json.prefixItems.map((item) => toType(item, indent));
+        if (json.items) items.push(`...${group(toType(json.items, indent))}[]`);
+        return `[${items.join(", ")}]`;
+      }
+      return `${group(toType(json.items, indent))}[]`;
+    }
+    case "object":
+      return toObjectType(json, indent);
+    default:
+      return "unknown";
+  }
+};
+
+const toObjectType = (json: JsonSchema, indent: string) => {
+  const properties = (json.properties ?? {}) as Record<string, unknown>;
+  const required = new Set((json.required ?? []) as string[]);
+  const additional = json.additionalProperties;
+  const inner = `${indent}  `;
+
+  const members = Object.entries(properties).map(
+    ([key, property]) =>
+      `${inner}${toKey(key)}${required.has(key) ? "" : "?"}: ${toType(property, inner)};`,
+  );
+
+  if (additional && typeof additional === "object") {
+    if (!members.length) return `Record<string, ${toType(additional, indent)}>`;
+    members.push(`${inner}[key: string]: unknown;`);
+  }
+
+  return members.length ? `{\n${members.join("\n")}\n${indent}}` : "{}";
+};
+
+const objectSchema = (parameters: OpenApiParameter[]): JsonSchema => ({
+  type: "object",
+  properties: Object.fromEntries(
+    parameters.map(({ name, schema }) => [name, schema]),
+  ),
+  required: parameters
+    .filter((parameter) => parameter.required)
+    .map(({ name }) => name),
+});
+
+interface ClientOperation {
+  name: string;
+  method: string;
+  path: string;
+  /** Request part schemas, and whether the part is required */
+  parts: [part: string, schema: JsonSchema, required: boolean][];
+  responses: [status: string, schema: JsonSchema | undefined][];
+}
+
+const toClientOperation = (
+  name: string,
+  method: string,
+  path: string,
+  operation: OpenApiOperation,
+): ClientOperation => {
+  const parts: ClientOperation["parts"] = [];
+
+  for (const [location, part] of Object.entries(parameterParts)) {
+    const parameters = (operation.parameters ?? []).filter(
+      (parameter) => parameter.in === location,
+    );
+    if (!parameters.length) continue;
+    parts.push([
+      part,
+      objectSchema(parameters),
+      parameters.some((parameter) => parameter.required),
+    ]);
+  }
+
+  if (operation.requestBody) {
+    const { content, required } = operation.requestBody;
+    const body = content["application/json"] ?? Object.values(content)[0];
+    if (body) parts.push(["body", body.schema, required]);
+  }
+
+  const responses = Object.entries(operation.responses).map(
+    ([status, response]) =>
+      [status, response.content?.["application/json"]?.schema] as [
+        string,
+        JsonSchema | undefined,
+      ],
+  );
+
+  return { name, method: method.toUpperCase(), path, parts, responses };
+};
+
+const printTypes = ({ name, parts, responses }: ClientOperation) => {
+  const type = toPascalCase(name);
+  const input = parts.map(
+    ([part, schema, required]) =>
+      `  ${part}${required ? "" : "?"}: ${toType(schema, "  ")};`,
+  );
+  const results = responses.map(
+    ([status, schema]) =>
+      `{\n      status: ${status === "default" ? "number" : status};\n      body: ${toType(schema, "      ")};\n    }`,
+  );
+
+  return [
+    `export type ${type}Input = ${input.length ? `{\n${input.join("\n")}\n}` : "{}"};`,
+    `export type ${type}Response =\n  | ${results.join("\n  | ")};`,
+  ].join("\n\n");
+};
+
+const printSchemas = ({ name, parts, responses }: ClientOperation) => {
+  const toSchema = (schema: JsonSchema | undefined) =>
+    schema ? `z.fromJSONSchema(${JSON.stringify(schema)})` : "undefined";
+
+  const entries = [
+    ...parts.map(([part, schema]) => `    ${part}: ${toSchema(schema)},`),
+    `    responses: {`,
+    ...responses.map(
+      ([status, schema]) => `      ${toKey(status)}: ${toSchema(schema)},`,
+    ),
+    `    },`,
+  ];
+
+  return `  ${name}: {\n${entries.join("\n")}\n  },`;
+};
+
+const printOperation = (
+  { name, method, path, parts, responses }: ClientOperation,
+  validation: boolean,
+) => {
+  const type = toPascalCase(name);
+  const optional = parts.every(([, , required]) => !required);
+  const statuses = responses.map(([status]) => status);
+  const operation = [
+    `method: "${method}"`,
+    `path: "${path}"`,
+    `statuses: [${statuses.map((status) => (status === "default" ? `"${status}"` : status)).join(", ")}]`,
+    ...(validation ? [`schemas: schemas.${name}`] : []),
+  ].join(", ");
+
+  return [
+    `    /** ${method} ${path} (responses: ${statuses.join(", ")}) */`,
+    `    ${name}: (input: ${type}Input${optional ? " = {}" : ""}) =>`,
+    `      request<${type}Response>({ ${operation} }, input),`,
+  ].join("\n");
+};
+
+const runtime = (validation: boolean) => `
+export interface ClientConfigs {
+  /** Origin and base path of the API, e.g. \`https://api.example.com\` */
+  baseUrl: string;
+  fetch?: typeof fetch;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;${
+    validation
+      ? `
+  /** Validates inputs before sending them, and parses responses (default: true) */
+  validate?: boolean;`
+      : ""
+  }
+}
+
+/** Thrown when the API answers with a status the route does not declare */
+export class ClientResponseError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(\`Unexpected response status \${status}\`);
+    this.name = "ClientResponseError";
+  }
+}
+
+interface RequestInput {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  statuses: (number | "default")[];${
+    validation
+      ? `
+  schemas: {
+    [part: string]: z.ZodType | Record<string, z.ZodType | undefined>;
+    responses: Record<string, z.ZodType | undefined>;
+  };`
+      : ""
+  }
+}
+
+const toSearch = (query: Record<string, unknown> = {}) => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of [value].flat()) {
+      if (item !== undefined) search.append(key, String(item));
+    }
+  }
+  const encoded = search.toString();
+  return encoded ? \`?\${encoded}\` : "";
+};
+
+const toPath = (path: string, params: Record<string, unknown> = {}) =>
+  path.replace(/\\{(\\w+)\\}/g, (_, name: string) =>
+    [params[name] ?? ""]
+      .flat()
+      .map((segment) => encodeURIComponent(String(segment)))
+      .join("/"),
+  );
+
+`;
+
+const printClient = (operations: ClientOperation[], validation: boolean) => `
+export const createClient = (configs: ClientConfigs) => {
+  const { baseUrl, fetch: fetchImpl = fetch${validation ? ", validate = true" : ""} } = configs;
+
+  const request = async <R>(
+    operation: Operation,
+    input: RequestInput,
+  ): Promise<R> => {${
+    validation
+      ? `
+    if (validate) {
+      input = Object.fromEntries(
+        Object.entries(input).map(([part, value]) => {
+          const schema = operation.schemas[part] as z.ZodType | undefined;
+          return [part, schema ? schema.parse(value) : value];
+        }),
+      );
+    }
+`
+      : ""
+  }
+    const headers: Record<string, string> = { ...configs.headers };
+    for (const [key, value] of Object.entries(input.headers ?? {})) {
+      if (value !== undefined) headers[key] = String(value);
+    }
+    if (input.body !== undefined) headers["content-type"] = "application/json";
+
+    const response = await fetchImpl(
+      \`\${baseUrl.replace(/\\/+$/, "")}\${toPath(operation.path, input.params)}\${toSearch(input.query)}\`,
+      {
+        method: operation.method,
+        headers,
+        body: input.body === undefined ? undefined : JSON.stringify(input.body),
+      },
+    );
+
+    const text = await response.text();
+    const isJson = /[/+]json\\b/i.test(response.headers.get("content-type") ?? "");
+    const body: unknown = text && isJson ? JSON.parse(text) : text || undefined;
+    const { status } = response;
+
+    if (!operation.statuses.includes(status) && !operation.statuses.includes("default")) {
+      throw new ClientResponseError(status, body);
+    }
+${
+  validation
+    ? `
+    const schema =
+      operation.schemas.responses[status] ?? operation.schemas.responses.default;
+    return { status, body: validate && schema ? schema.parse(body) : body } as R;`
+    : `
+    return { status, body } as R;`
+}
+  };
+
+  return {
+${operations.map((operation) => printOperation(operation, validation)).join("\n")}
+  };
+};
+`;
+
+/**
+ * Generates the TypeScript source of a fetch client for the routes of an app
+ * or router, from the same schemas as `generateOpenApi`. Nothing is sent over
+ * the network: the app only needs to be defined, not listening.
+ */
+export const generateClient = (
+  app: RouterLike,
+  configs: ClientGeneratorConfigs = {},
+): string => {
+  const { validation = false, mounts } = configs;
+  const { paths } = generateOpenApi(app, {
+    info: { title: "Client", version: "0.0.0" },
+    mounts,
+  });
+
+  const names = new Map<string, number>();
+  const operations = Object.entries(paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => {
+      const base = toOperationName(method, path);
+      const count = (names.get(base) ?? 0) + 1;
+      names.set(base, count);
+      const name = count > 1 ? `${base}${count}` : base;
+      return toClientOperation(name, method, path, operation);
+    }),
+  );
+
+  return (
+    [
+      "// Generated by express-zod-validations. Do not edit.",
+      ...(validation ? ['import { z } from "zod";'] : []),
+      runtime(validation).trim(),
+      ...(validation
+        ? [
+            `// Rebuilt from JSON Schema: refinements, transforms and custom checks are\n// left to the server\nconst schemas = {\n${operations.map(printSchemas).join("\n")}\n};`,
+          ]
+        : []),
+      ...operations.map(printTypes),
+      printClient(operations, validation).trim(),
+    ].join("\n\n") + "\n"
+  );
+};
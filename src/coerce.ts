@@ -0,0 +1,88 @@
+import type { ZodType } from "zod";
+import { defOf, isPlainObject, unwrap } from "./introspection";
+
+export interface CoerceOptions {
+  /** Split strings on commas for array schemas, as in repeated HTTP headers */
+  commaSeparated?: boolean;
+}
+
+const toNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== "" && !Number.isNaN(number) ? number : value;
+};
+
+const toBoolean = (value: string) => {
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  return value;
+};
+
+const toDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date;
+};
+
+const toBigInt = (value: string) => {
+  try {
+    return BigInt(value);
+  } catch {
+    return value;
+  }
+};
+
+const toLiteral = (values: unknown[], value: string) =>
+  values.find((literal) => String(literal) === value) ?? value;
+
+/**
+ * Converts string inputs (query strings, route params, headers) to the types
+ * expected by `schema`. Values that cannot be converted are left untouched, so
+ * Zod reports them as regular validation issues.
+ */
+export const coerceInput = (
+  schema: ZodType,
+  value: unknown,
+  options: CoerceOptions = {},
+): unknown => {
+  const def = defOf(unwrap(schema));
+
+  if (def.type === "array" && def.element) {
+    const items = Array.isArray(value)
+      ? value
+      : typeof value === "string" && options.commaSeparated
+        ? value.split(",").map((item) => item.trim())
+        : value === undefined
+          ? value
+          : [value];
+
+    return Array.isArray(items)
+      ? items.map((item) => coerceInput(def.element!, item, options))
+      : items;
+  }
+
+  if (def.type === "object" && def.shape && isPlainObject(value)) {
+    const coerced = { ...value };
+    for (const [key, property] of Object.entries(def.shape)) {
+      if (key in coerced) {
+        coerced[key] = coerceInput(property, coerced[key], options);
+      }
+    }
+    return coerced;
+  }
+
+  if (typeof value !== "string") return value;
+
+  switch (def.type) {
+    case "number":
+      return toNumber(value);
+    case "bigint":
+      return toBigInt(value);
+    case "boolean":
+      return toBoolean(value);
+    case "date":
+      return toDate(value);
+    case "literal":
+      return toLiteral(def.values ?? [], value);
+    default:
+      return value;
+  }
+};
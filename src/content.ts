@@ -0,0 +1,144 @@
+import { NextFunction, Response } from "express";
+import { z, type ZodType } from "zod";
+import { coerceInput } from "./coerce";
+import { validationContext } from "./context";
+import {
+  validate,
+  type ValidationMiddleware,
+  type ValidationOptions,
+  type ValidationRequest,
+} from "./validate";
+
+/** Body schemas keyed by media type, e.g. `application/json` or `text/*` */
+export type ContentSchemas = Record<string, ZodType>;
+
+export interface ContentMiddleware<
+  C extends ContentSchemas = ContentSchemas,
+> extends ValidationMiddleware<{ body: C[keyof C] }> {
+  readonly contentSchemas: C;
+}
+
+const formTypes = ["application/x-www-form-urlencoded", "multipart/form-data"];
+const unsafeKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Highest bracket index read as an array index, larger ones being keys */
+const arrayLimit = 1000;
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isIndex = (segment: string | undefined) =>
+  segment !== undefined &&
+  /^\d+$/.test(segment) &&
+  Number(segment) <= arrayLimit;
+
+/**
+ * Nests bracket-notation keys of a flat form body: `user[name]`, `tags[]` and
+ * `items[0][id]` become objects and arrays. Indices above 1000, and keys
+ * that are not indices, turn arrays into objects, so that a single field
+ * cannot allocate a huge sparse array.
+ */
+export const unflatten = (body: unknown): unknown => {
+  if (!isContainer(body) || Array.isArray(body)) return body;
+
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(body)) {
+    const match = key.match(/^([^[\]]+)((?:\[[^[\]]*\])*)$/);
+    const segments = match
+      ? [match[1], ...[...match[2].matchAll(/\[([^[\]]*)\]/g)].map((m) => m[1])]
+      : [key];
+
+    if (segments.some((segment) => unsafeKeys.has(segment))) continue;
+
+    let parent: Record<string, unknown> = result;
+    let parentProperty = "";
+    let target: Record<string, unknown> = result;
+    segments.forEach((segment, index) => {
+      if (Array.isArray(target) && segment !== "" && !isIndex(segment)) {
+        target = parent[parentProperty] = Object.assign({}, target);
+      }
+      const last = index === segments.length - 1;
+      const next = segments[index + 1];
+      const property =
+        segment === "" && Array.isArray(target)
+          ? String(target.length)
+          : segment;
+
+      if (last) {
+        if (Array.isArray(target) && segment === "" && Array.isArray(value)) {
+          (target as unknown[]).push(...value);
+        } else {
+          target[property] = value;
+        }
+        return;
+      }
+
+      if (!isContainer(target[property])) {
+        target[property] = next === "" || isIndex(next) ? [] : {};
+      }
+      parent = target;
+      parentProperty = property;
+      target = target[property] as Record<string, unknown>;
+    });
+  }
+
+  return result;
+};
+
+const normalizeForm = (schema: ZodType) =>
+  z.preprocess((body) => coerceInput(schema, unflatten(body)), schema);
+
+const unsupported = (supported: string[]) =>
+  z.custom(() => false, {
+    // The media type is read from the request being validated
+    error: () => {
+      const type = validationContext().req.get("Content-Type")?.split(";")[0];
+      return type
+        ? `Unsupported content type "${type}", expected one of: ${supported.join(", ")}`
+        : `Missing content type, expected one of: ${supported.join(", ")}`;
+    },
+    params: { status: 415, supported },
+  });
+
+/**
+ * Validates `req.body` against the schema of its media type. Form bodies
+ * (urlencoded and multipart) are unflattened from bracket notation and their
+ * strings coerced to the schema types. Unsupported media types are reported
+ * as a `body` issue with a 415 status.
+ */
+export const validateContent = <C extends ContentSchemas>(
+  schemas: C,
+  options?: ValidationOptions,
+): ContentMiddleware<C> => {
+  const types = Object.keys(schemas);
+  const middlewares = new Map(
+    types.map((type) => {
+      const schema = schemas[type];
+      const normalized = formTypes.includes(type)
+        ? normalizeForm(schema)
+        : schema;
+      return [type, validate({ body: normalized }, options)];
+    }),
+  );
+
+  const reject = validate({ body: unsupported(types) }, options);
+
+  const middleware = async (
+    req: ValidationRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    // Requests without a body are checked against the first schema
+    const matched =
+      req.is(types) === null ? types[0] : types.find((type) => req.is(type));
+
+    if (matched) return middlewares.get(matched)!(req, res, next);
+    return reject(req, res, next);
+  };
+
+  return Object.assign(middleware, {
+    schemas: { body: schemas[types[0]] as C[keyof C] },
+    contentSchemas: schemas,
+  });
+};
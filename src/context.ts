@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ZodType } from "zod";
+import { parseSync, type CompiledSchema } from "./async";
+import type { ValidationRequest } from "./validate";
+
+/**
+ * Values available to refinements through `validationContext()`. Values added
+ * by the `context` option are typed through declaration merging:
+ *
+ * ```ts
+ * declare module "express-zod-validations" {
+ *   interface ValidationContext {
+ *     tenant: Tenant;
+ *   }
+ * }
+ * ```
+ */
+export interface ValidationContext {
+  req: ValidationRequest;
+}
+
+/** Builds the values of the context, once per request */
+export type ContextFactory = (
+  req: ValidationRequest,
+) => Omit<ValidationContext, "req"> | Promise<Omit<ValidationContext, "req">>;
+
+/** Builds the schema of a part from the request being validated */
+export type SchemaFactory<T extends ZodType = ZodType> = (
+  req: ValidationRequest,
+) => T | Promise<T>;
+
+export interface CachedSchemaConfigs {
+  /** Key of the derived schema, e.g. the role or the tenant of the request */
+  key: (req: ValidationRequest) => string;
+  /** Maximum number of cached schemas, the oldest being evicted (default: 100) */
+  max?: number;
+}
+
+// Async local storage slows every promise down, so synchronous parsing,
+// which cannot interleave with other requests, uses a plain variable
+const storage = new AsyncLocalStorage<ValidationRequest>();
+let current: ValidationRequest | undefined;
+
+export const isSchemaFactory = (value: unknown): value is SchemaFactory =>
+  typeof value === "function";
+
+/** Runs `callback` with the context of `req` as `validationContext()` */
+export const runWithContext = <T>(req: ValidationRequest, callback: () => T) =>
+  storage.run(req, callback);
+
+/** Parses `input` with the context of `req` as `validationContext()` */
+export const parseWithContext = (
+  req: ValidationRequest,
+  compiled: CompiledSchema,
+  input: unknown,
+  options?: Parameters<ZodType["safeParse"]>[1],
+) => {
+  const previous = current;
+  current = req;
+  try {
+    const result = parseSync(compiled, input, options);
+    if (result) return result;
+  } finally {
+    current = previous;
+  }
+
+  return runWithContext(req, () =>
+    compiled.schema.safeParseAsync(input, options),
+  );
+};
+
+/**
+ * Context of the request being validated, for refinements and transforms
+ * that depend on the request. Throws when called outside of validation.
+ */
+export const validationContext = (): ValidationContext => {
+  const req = current ?? storage.getStore();
+  if (!req) {
+    throw new Error("validationContext() called outside of validation");
+  }
+  return (req.validationContext ??= { req } as ValidationContext);
+};
+
+/**
+ * Caches the schemas built by `factory` by key, so that schemas derived from a
+ * few distinct values are built once instead of on every request.
+ */
+export const cachedSchema = <T extends ZodType>(
+  factory: SchemaFactory<T>,
+  configs: CachedSchemaConfigs,
+): SchemaFactory<T> => {
+  const { key, max = 100 } = configs;
+  const cache = new Map<string, T | Promise<T>>();
+
+  return (req) => {
+    const cacheKey = key(req);
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    const schema = factory(req);
+    if (cache.size >= max) cache.delete(cache.keys().next().value!);
+    cache.set(cacheKey, schema);
+
+    // Failed builds are retried on the next request
+    if (schema instanceof Promise) {
+      schema.catch(() => {
+        if (cache.get(cacheKey) === schema) cache.delete(cacheKey);
+      });
+    }
+    return schema;
+  };
+};
@@ -0,0 +1,158 @@
+import type { IRouter, NextFunction, Response } from "express";
+import type { ZodType, z } from "zod";
+import { ValidationError } from "./errors";
+import { validateResponse, type ResponseValidationConfigs } from "./response";
+import {
+  validate,
+  type InferValidationValues,
+  type SchemaOf,
+  type ValidatedRequest,
+  type ValidationErrors,
+  type ValidationKey,
+  type ValidationOptions,
+  type ValidationProps,
+} from "./validate";
+
+export type HttpMethod =
+  "get" | "post" | "put" | "patch" | "delete" | "head" | "options";
+
+/** Response schemas of a contract, keyed by status code */
+export type ContractResponses = Partial<Record<number | "default", ZodType>>;
+
+export interface RouteContract<
+  Path extends string = string,
+  P extends ValidationProps = ValidationProps,
+  R extends ContractResponses = ContractResponses,
+> {
+  method: HttpMethod;
+  /** Express path, e.g. `/users/:id` or `/files/*path` */
+  path: Path;
+  request?: P;
+  responses: R;
+}
+
+type ParamName<S extends string> = S extends `${infer Name}${
+  "/" | "." | "-" | "{" | "}"}${string}`
+  ? ParamName<Name>
+  : S;
+
+type MarkedParams<
+  Path extends string,
+  Marker extends string,
+> = Path extends `${string}${Marker}${infer Rest}`
+  ? ParamName<Rest> | MarkedParams<Rest, Marker>
+  : never;
+
+/** Names of the `:params` and `*wildcards` of an Express path */
+export type PathParams<Path extends string> =
+  MarkedParams<Path, ":"> | MarkedParams<Path, "*">;
+
+type SchemaParams<P extends ValidationProps> =
+  SchemaOf<P["params"]> extends ZodType
+    ? keyof z.input<SchemaOf<P["params"]>> & string
+    : never;
+
+/** Turns the `params` of a contract into an error when they miss path names */
+type CheckPathParams<Path extends string, P extends ValidationProps> = [
+  PathParams<Path>,
+] extends [SchemaParams<P>]
+  ? [SchemaParams<P>] extends [PathParams<Path>]
+    ? unknown
+    : {
+        request: {
+          params: `Unknown path parameters: ${Exclude<SchemaParams<P>, PathParams<Path>>}`;
+        };
+      }
+  : {
+      request: {
+        params: `Missing path parameters: ${Exclude<PathParams<Path>, SchemaParams<P>>}`;
+      };
+    };
+
+/** Responses a handler may return, one per declared status */
+export type ContractResult<R extends ContractResponses> = {
+  [S in keyof R & (number | "default")]: {
+    status: S extends number ? S : number;
+    body: R[S] extends ZodType ? z.input<R[S]> : never;
+  };
+}[keyof R & (number | "default")];
+
+export type ContractHandler<
+  P extends ValidationProps,
+  R extends ContractResponses,
+> = (
+  input: InferValidationValues<P>,
+  req: ValidatedRequest<P>,
+  res: Response,
+) => ContractResult<R> | Promise<ContractResult<R>>;
+
+export interface ContractOptions extends ValidationOptions {
+  /** Response validation of the handler results */
+  response?: ResponseValidationConfigs;
+}
+
+/**
+ * Declares a route contract. Path parameter names are checked against the
+ * `params` schema at compile time.
+ */
+export const defineRoute = <
+  Path extends string,
+  P extends ValidationProps = {},
+  R extends ContractResponses = {},
+>(
+  contract: RouteContract<Path, P, R> & CheckPathParams<Path, P>,
+): RouteContract<Path, P, R> => contract;
+
+/**
+ * Mounts a contract on a router or app. Requests are validated against the
+ * contract schemas, invalid ones are forwarded a `ValidationError`, and the
+ * handler result is sent after response validation.
+ */
+export const mountRoute = <
+  Path extends string,
+  P extends ValidationProps,
+  R extends ContractResponses,
+>(
+  router: IRouter,
+  contract: RouteContract<Path, P, R>,
+  handler: ContractHandler<P, R>,
+  options: ContractOptions = {},
+) => {
+  const { response, ...validationOptions } = options;
+  const props = contract.request ?? ({} as P);
+  const keys = Object.keys(props) as ValidationKey[];
+
+  const handle = async (
+    req: ValidatedRequest<P>,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    try {
+      const errors: ValidationErrors = {};
+      for (const key of keys) {
+        const error = req.validationErrors?.[key];
+        if (error) errors[key] = error;
+      }
+      if (Object.keys(errors).length) {
+        return next(new ValidationError(errors));
+      }
+
+      const input = req.validationValues as InferValidationValues<P>;
+      const { status, body } = await handler(input, req, res);
+
+      if (body === undefined) res.status(status).end();
+      else res.status(status).json(body);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  router[contract.method](
+    contract.path,
+    validate(props, validationOptions),
+    validateResponse(contract.responses, response),
+    handle,
+  );
+
+  return router;
+};
@@ -0,0 +1,517 @@
+import { ZodError, type ZodType, type z } from "zod";
+import { compileSchema } from "./async";
+import { coerceInput } from "./coerce";
+import {
+  isSchemaFactory,
+  parseWithContext,
+  runWithContext,
+  type ValidationContext,
+} from "./context";
+import { ValidationError, ValidationTimeoutError } from "./errors";
+import { capIssues, checkGuards, withTimeout } from "./guards";
+import { emit, hasHooks, routeOf } from "./hooks";
+import { localizeErrorMap, resolveLocale } from "./locale";
+import {
+  defaultRedactPaths,
+  redactError,
+  sensitivePaths,
+  toPaths,
+} from "./redact";
+import {
+  compareRuns,
+  isSampled,
+  sendReport,
+  shadowOptions,
+  shadowRequest,
+} from "./shadow";
+import type {
+  PartsOption,
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationKey,
+  ValidationOptions,
+  ValidationProps,
+  ValidationRequest,
+} from "./validate";
+
+type SafeParseResult = ReturnType<ZodType["safeParse"]>;
+
+/**
+ * Validates the parts of a request, storing the outcome in its
+ * `validationValues` and `validationErrors`. Resolves with the error to
+ * forward, if any: a `ValidationError` with `throwErrors`, or an unexpected
+ * error.
+ */
+export type ValidationRunner = (req: ValidationRequest) => Promise<unknown>;
+
+/** Reads and replaces the parts of the requests of a framework */
+export interface RequestAccessors {
+  read: (req: ValidationRequest, key: ValidationKey) => unknown;
+  /** Replaces a part with its parsed value, for `overwriteRequest` */
+  write: (req: ValidationRequest, key: ValidationKey, value: unknown) => void;
+}
+
+/**
+ * Parts of Express requests are their properties. Express 5 exposes
+ * `req.query` as a getter on the request prototype, so plain assignment is
+ * not enough to replace it.
+ */
+export const expressAccessors: RequestAccessors = {
+  read: (req, key) => (req as unknown as Record<ValidationKey, unknown>)[key],
+  write: (req, key, value) => {
+    Object.defineProperty(req, key, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+  },
+};
+
+const coercedParts: ValidationKey[] = ["query", "params", "headers"];
+
+const isEnabled = (
+  option: PartsOption,
+  key: ValidationKey,
+  parts?: ValidationKey[],
+) =>
+  typeof option === "boolean"
+    ? option && (!parts || parts.includes(key))
+    : !!option[key];
+
+/**
+ * Merges configs from the least to the most specific, so that a route
+ * overrides its router, which overrides `expressZodValidations`. Undefined
+ * values are inherited.
+ */
+export const mergeConfigs = <T extends ValidationConfigs>(
+  ...sources: (T | undefined)[]
+): T =>
+  Object.assign(
+    {},
+    ...sources.map((source) =>
+      Object.fromEntries(
+        Object.entries(source ?? {}).filter(([, value]) => value !== undefined),
+      ),
+    ),
+  );
+
+type CompiledPart = ReturnType<typeof compileSchema> & {
+  sensitive: ReturnType<typeof sensitivePaths>;
+};
+
+// Schemas returned again by factories are not walked again
+const compiledParts = new WeakMap<ZodType, CompiledPart>();
+
+const compilePart = (schema: ZodType): CompiledPart => {
+  let compiled = compiledParts.get(schema);
+  if (!compiled) {
+    compiled = { ...compileSchema(schema), sensitive: sensitivePaths(schema) };
+    compiledParts.set(schema, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Splits the issues of a cross-part schema by the part starting their path.
+ * Issues on no part are attributed to the first one, with their full path.
+ */
+const attributeIssues = (
+  issues: z.core.$ZodIssue[],
+  keys: ValidationKey[],
+): Partial<Record<ValidationKey, z.core.$ZodIssue[]>> => {
+  const byPart: Partial<Record<ValidationKey, z.core.$ZodIssue[]>> = {};
+
+  for (const issue of issues) {
+    const [head, ...path] = issue.path;
+    const key = keys.find((part) => part === head);
+    const attributed = key ? { ...issue, path } : issue;
+    (byPart[key ?? keys[0]] ??= []).push(attributed);
+  }
+  return byPart;
+};
+
+/**
+ * Validates the parts of a request, `shadow` being handled by the caller.
+ * `settle` is called with every part whose outcome is stored.
+ */
+const createRunner = (
+  props: ValidationProps,
+  options: ValidationOptions | undefined,
+  accessors: RequestAccessors,
+  settle?: (req: ValidationRequest, key: ValidationKey) => void,
+): ValidationRunner => {
+  const { error, reportInput, jitless, ...configs } = options ?? {};
+  const routeConfigs = mergeConfigs(configs);
+
+  // Parts and sync/async parsing are resolved once, not on every request,
+  // except for the parts built by schema factories
+  const { refine: refineSchema, ...schemas } = props;
+  const entries = (
+    Object.entries(schemas) as [ValidationKey, ValidationProps[ValidationKey]][]
+  ).filter(([, schema]) => schema);
+  const factories = entries.flatMap(([key, schema]) =>
+    isSchemaFactory(schema) ? [{ key, factory: schema }] : [],
+  );
+  const staticParts = entries.flatMap(([key, schema]) =>
+    schema && !isSchemaFactory(schema) ? [{ key, ...compilePart(schema) }] : [],
+  );
+
+  if (refineSchema && !entries.length) {
+    throw new Error("refine needs at least one part to validate");
+  }
+  const refine = refineSchema && compileSchema(refineSchema);
+
+  const resolveParts = async (req: ValidationRequest) => {
+    const built = await Promise.all(
+      factories.map(async ({ key, factory }) => {
+        const schema = await factory(req);
+        return [key, { key, ...compilePart(schema) }] as const;
+      }),
+    );
+    const byKey = new Map(built);
+
+    // Parts keep the order in which they were declared
+    return entries.map(
+      ([key]) =>
+        byKey.get(key) ?? staticParts.find((part) => part.key === key)!,
+    );
+  };
+
+  return async (req) => {
+    // Hooks of `expressZodValidations` and of the route both run
+    const hooks = [req.validationConfigs, routeConfigs].filter(hasHooks);
+
+    // With `refine`, events are emitted once its issues are attributed, so
+    // that the parts it rejects are reported as failures
+    const outcomes = new Map<
+      ValidationKey,
+      { result: SafeParseResult; duration: number }
+    >();
+    const report = (
+      key: ValidationKey,
+      result: SafeParseResult,
+      duration: number,
+    ) =>
+      emit(hooks, {
+        req,
+        method: req.method,
+        route: routeOf(req),
+        part: key,
+        duration,
+        success: result.success,
+        issues: result.success ? [] : result.error.issues,
+      });
+
+    try {
+      const validationErrors = (req.validationErrors ??= {});
+      const validationValues = (req.validationValues ??= {});
+
+      const configs = req.validationConfigs
+        ? mergeConfigs(req.validationConfigs, routeConfigs)
+        : routeConfigs;
+      const {
+        throwErrors = false,
+        overwriteRequest = false,
+        errorMode = "first",
+        coerce = false,
+        redact,
+        guards,
+      } = configs;
+
+      if (configs.locales) {
+        req.validationLocale = resolveLocale(req, configs);
+      }
+
+      if (configs.context && !req.validationContext) {
+        const values = configs.context(req);
+        req.validationContext = {
+          ...(values instanceof Promise ? await values : values),
+          req,
+        } as ValidationContext;
+      }
+
+      const parts = factories.length
+        ? await runWithContext(req, () => resolveParts(req))
+        : staticParts;
+
+      // Zod parses noticeably faster when no parse option is passed
+      const localeError = localizeErrorMap(
+        req.validationLocale,
+        configs,
+        error,
+      );
+      const parseOptions =
+        localeError || reportInput || jitless
+          ? { error: localeError, reportInput, jitless }
+          : undefined;
+
+      const scrubError = (
+        part: CompiledPart & { key: ValidationKey },
+        input: unknown,
+        error: ZodError,
+      ) => {
+        const capped = capIssues(error, guards?.maxIssues);
+        return redact === false
+          ? capped
+          : redactError(
+              capped,
+              input,
+              [
+                ...part.sensitive,
+                ...toPaths(defaultRedactPaths[part.key]),
+                ...toPaths(redact?.paths?.[part.key]),
+              ],
+              redact?.censor,
+            );
+      };
+
+      const parse = (part: CompiledPart & { key: ValidationKey }) => {
+        const input = accessors.read(req, part.key);
+
+        // Payloads breaking a guard are rejected without being parsed
+        const violation = guards && checkGuards(input, guards);
+        const parsed: SafeParseResult | Promise<SafeParseResult> = violation
+          ? { success: false, error: new ZodError([violation]) }
+          : parseWithContext(
+              req,
+              part,
+              isEnabled(coerce, part.key, coercedParts)
+                ? coerceInput(part.schema, input, {
+                    commaSeparated: part.key === "headers",
+                  })
+                : input,
+              parseOptions,
+            );
+
+        const scrub = (result: SafeParseResult): SafeParseResult =>
+          result.success
+            ? result
+            : { success: false, error: scrubError(part, input, result.error) };
+
+        if (!(parsed instanceof Promise)) return scrub(parsed);
+
+        const timeout = guards?.timeout;
+        return (
+          timeout === undefined
+            ? parsed
+            : withTimeout(
+                parsed,
+                timeout,
+                () => new ValidationTimeoutError(part.key, timeout),
+              )
+        ).then(scrub);
+      };
+
+      const run = (part: CompiledPart & { key: ValidationKey }) => {
+        if (!hooks.length) return parse(part);
+
+        const start = performance.now();
+        const done = (result: SafeParseResult) => {
+          const duration = performance.now() - start;
+          if (refine) outcomes.set(part.key, { result, duration });
+          else report(part.key, result, duration);
+          return result;
+        };
+
+        const parsed = parse(part);
+        return parsed instanceof Promise ? parsed.then(done) : done(parsed);
+      };
+
+      const apply = (key: ValidationKey, result: SafeParseResult) => {
+        settle?.(req, key);
+        if (result.success) {
+          delete validationErrors[key];
+          validationValues[key] = result.data;
+          if (isEnabled(overwriteRequest, key)) {
+            accessors.write(req, key, result.data);
+          }
+        } else {
+          validationErrors[key] = result.error;
+          delete validationValues[key];
+        }
+      };
+
+      let failed = false;
+
+      if (errorMode === "all") {
+        const results = await Promise.all(parts.map(run));
+        const errors: ValidationErrors = {};
+
+        results.forEach((result, index) => {
+          const { key } = parts[index];
+          apply(key, result);
+          if (!result.success) errors[key] = result.error;
+        });
+
+        failed = Object.keys(errors).length > 0;
+        if (throwErrors && failed) {
+          return new ValidationError(errors);
+        }
+      } else {
+        for (const part of parts) {
+          const parsed = run(part);
+          const result = parsed instanceof Promise ? await parsed : parsed;
+          apply(part.key, result);
+
+          if (!result.success) {
+            failed = true;
+            if (throwErrors) {
+              return new ValidationError({ [part.key]: result.error });
+            }
+          }
+        }
+      }
+
+      // Cross-part rules run once every part is valid, on the parsed values
+      if (refine && !failed) {
+        const values = Object.fromEntries(
+          parts.map(({ key }) => [key, validationValues[key]]),
+        );
+        const start = performance.now();
+        const parsed = parseWithContext(req, refine, values, parseOptions);
+        const result = parsed instanceof Promise ? await parsed : parsed;
+        const duration = performance.now() - start;
+
+        if (!result.success) {
+          const issues = attributeIssues(
+            result.error.issues,
+            parts.map(({ key }) => key),
+          );
+          const errors: ValidationErrors = {};
+
+          for (const part of parts) {
+            const partIssues = issues[part.key];
+            if (!partIssues) continue;
+
+            errors[part.key] = scrubError(
+              part,
+              values[part.key],
+              new ZodError(partIssues),
+            );
+            const failure: SafeParseResult = {
+              success: false,
+              error: errors[part.key]!,
+            };
+            apply(part.key, failure);
+
+            const outcome = outcomes.get(part.key);
+            if (outcome) {
+              outcome.result = failure;
+              outcome.duration += duration;
+            }
+          }
+
+          if (throwErrors) return new ValidationError(errors);
+        }
+      }
+
+      return undefined;
+    } catch (error) {
+      return error;
+    } finally {
+      outcomes.forEach(({ result, duration }, key) =>
+        report(key, result, duration),
+      );
+    }
+  };
+};
+
+/**
+ * Framework-agnostic core of `validate()`. Requests of other frameworks are
+ * passed as views with the members read by the validation: `method`,
+ * `headers`, and the validation properties, their parts being read through
+ * `accessors`.
+ */
+export const createValidationRunner = (
+  props: ValidationProps,
+  options?: ValidationOptions,
+  accessors: RequestAccessors = expressAccessors,
+): ValidationRunner => {
+  // Parts settled by the enforced run of the requests being compared
+  const settled = new WeakMap<ValidationRequest, Set<ValidationKey>>();
+  const run = createRunner(props, options, accessors, (req, key) =>
+    settled.get(req)?.add(key),
+  );
+
+  // Report-only runners are created when a request first needs them
+  let reportOnly: ValidationRunner | undefined;
+  const compared = new WeakMap<ValidationProps, ValidationRunner>();
+
+  // Compared schemas read the parts copied on the request by `shadowRequest`
+  const runCompared = (schemas: ValidationProps) => {
+    let runner = compared.get(schemas);
+    if (!runner) {
+      runner = createRunner(schemas, shadowOptions(options), expressAccessors);
+      compared.set(schemas, runner);
+    }
+    return runner;
+  };
+
+  return async (req) => {
+    // The route configs take precedence over the global ones, `false` opting
+    // the route out
+    const shadow = options?.shadow ?? req.validationConfigs?.shadow;
+    if (!shadow) return run(req);
+
+    const sampled = isSampled(shadow);
+
+    if (!shadow.compare) {
+      // The request is left untouched, whether it is sampled or not
+      if (sampled) {
+        reportOnly ??= createRunner(props, shadowOptions(options), accessors);
+        const copy = shadowRequest(req);
+        await reportOnly(copy);
+        sendReport(shadow, req, "report", copy.validationErrors!);
+      }
+      return undefined;
+    }
+    if (!sampled) return run(req);
+
+    // The parts are copied before the enforced run may overwrite them, and
+    // its outcome is compared rather than running the route schemas again
+    const { refine: _, ...schemas } = shadow.compare;
+    const comparedKeys = Object.keys(schemas) as ValidationKey[];
+    const candidate = shadowRequest(
+      req,
+      Object.fromEntries(
+        comparedKeys.map((key) => [key, accessors.read(req, key)]),
+      ),
+    );
+    const parts = new Set<ValidationKey>();
+    settled.set(req, parts);
+
+    const [error] = await Promise.all([
+      run(req),
+      runCompared(shadow.compare)(candidate),
+    ]);
+    settled.delete(req);
+
+    // Parts the route stopped before validating are not compared
+    const keys = [
+      ...new Set([...parts, ...comparedKeys.filter((key) => !(key in props))]),
+    ];
+    const pick = <T>(outcome: Partial<Record<ValidationKey, T>>) =>
+      Object.fromEntries(
+        [...parts]
+          .filter((key) => key in outcome)
+          .map((key) => [key, outcome[key]]),
+      );
+
+    sendReport(
+      shadow,
+      req,
+      "compare",
+      candidate.validationErrors!,
+      compareRuns(
+        {
+          validationErrors: pick(req.validationErrors!),
+          validationValues: pick(req.validationValues!),
+        },
+        candidate,
+        keys,
+      ),
+    );
+    return error;
+  };
+};
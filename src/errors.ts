@@ -0,0 +1,197 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
+import type { ValidationErrors, ValidationKey } from "./validate";
+
+/**
+ * `ZodError` with the issues of every failed part, each part keeping its own
+ * `ZodError` in `errors`
+ */
+export class ValidationError extends ZodError {
+  /** Failed parts, in validation order */
+  readonly parts: ValidationKey[];
+  readonly errors: ValidationErrors;
+
+  constructor(errors: ValidationErrors) {
+    const parts = Object.keys(errors) as ValidationKey[];
+    super(parts.flatMap((part) => errors[part]!.issues));
+    this.message = `Invalid request ${parts.join(", ")}`;
+    this.parts = parts;
+    this.errors = errors;
+    Error.captureStackTrace(this, ValidationError);
+  }
+
+  // Zod matches its instances by trait, which every `ZodError` has
+  static [Symbol.hasInstance](value: unknown) {
+    return Function.prototype[Symbol.hasInstance].call(this, value);
+  }
+
+  /** First failed part */
+  get part() {
+    return this.parts[0];
+  }
+
+  /** Error of the first failed part */
+  get cause(): ZodError {
+    return this.errors[this.part]!;
+  }
+}
+
+// Unlike the errors thrown by Zod, `new ZodError()` is not an `Error`
+Object.setPrototypeOf(ValidationError.prototype, Error.prototype);
+
+/** Thrown by `validateVariant` when the request matches none of the variants */
+export class VariantError extends Error {
+  /** Value read from the request, `undefined` when missing */
+  readonly variant: string | undefined;
+  readonly variants: string[];
+
+  constructor(variant: string | undefined, variants: string[]) {
+    super(
+      variant === undefined
+        ? `Missing request variant, expected one of: ${variants.join(", ")}`
+        : `Unsupported request variant "${variant}", expected one of: ${variants.join(", ")}`,
+    );
+    this.name = "VariantError";
+    this.variant = variant;
+    this.variants = variants;
+  }
+}
+
+/** Forwarded when async parsing outlasts the `guards.timeout` option */
+export class ValidationTimeoutError extends Error {
+  readonly part: ValidationKey;
+  /** Timeout, in milliseconds */
+  readonly timeout: number;
+
+  constructor(part: ValidationKey, timeout: number) {
+    super(`Validation of ${part} timed out after ${timeout} ms`);
+    this.name = "ValidationTimeoutError";
+    this.part = part;
+    this.timeout = timeout;
+  }
+}
+
+export interface ProblemIssue {
+  part: ValidationKey;
+  /** JSON Pointer to the invalid field, relative to the request part */
+  pointer: string;
+  code: string;
+  message: string;
+}
+
+/** RFC 9457 problem details object with the validation issues as extension */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors: ProblemIssue[];
+}
+
+export interface ProblemConfigs {
+  status?: number;
+  type?: string;
+  title?: string;
+  format?: (
+    problem: ProblemDetails,
+    error: ValidationError,
+    req: Request,
+  ) => object;
+}
+
+export interface ValidationErrorHandlerConfigs extends ProblemConfigs {
+  /**
+   * Overrides applied when the error comes from a specific request part. When
+   * several parts failed, the overrides of the first one apply.
+   */
+  parts?: Partial<Record<ValidationKey, ProblemConfigs>>;
+}
+
+const toPointer = (path: PropertyKey[]) =>
+  path
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`,
+    )
+    .join("");
+
+export const toProblemDetails = (
+  error: ValidationError,
+  configs: ProblemConfigs = {},
+  instance?: string,
+): ProblemDetails => {
+  const {
+    status = 400,
+    type = "about:blank",
+    title = "Validation failed",
+  } = configs;
+
+  return {
+    type,
+    title,
+    status,
+    detail: error.message,
+    instance,
+    errors: error.parts.flatMap((part) =>
+      error.errors[part]!.issues.map((issue) => ({
+        part,
+        pointer: toPointer(issue.path),
+        code: issue.code,
+        message: issue.message,
+      })),
+    ),
+  };
+};
+
+/** Status requested by an issue, e.g. 415 for unsupported content types */
+const issueStatus = (error: ValidationError) => {
+  for (const issue of error.issues) {
+    if (issue.code === "custom" && typeof issue.params?.status === "number") {
+      return { status: issue.params.status as number };
+    }
+  }
+  return {};
+};
+
+export const validationErrorHandler =
+  (configs: ValidationErrorHandlerConfigs = {}) =>
+  (err: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof VariantError) {
+      const { status = 400, type = "about:blank" } = configs;
+      const problem: ProblemDetails = {
+        type,
+        title: "Unsupported variant",
+        status,
+        detail: err.message,
+        instance: req.originalUrl,
+        errors: [],
+      };
+      return res.status(status).type("application/problem+json").json(problem);
+    }
+
+    if (err instanceof ValidationTimeoutError) {
+      const problem: ProblemDetails = {
+        type: configs.type ?? "about:blank",
+        title: "Validation timed out",
+        status: 503,
+        detail: err.message,
+        instance: req.originalUrl,
+        errors: [],
+      };
+      return res.status(503).type("application/problem+json").json(problem);
+    }
+
+    if (!(err instanceof ValidationError)) return next(err);
+
+    const { parts, ...defaults } = configs;
+    const partConfigs = {
+      ...defaults,
+      ...issueStatus(err),
+      ...parts?.[err.part],
+    };
+    const problem = toProblemDetails(err, partConfigs, req.originalUrl);
+    const body = partConfigs.format?.(problem, err, req) ?? problem;
+
+    res.status(problem.status).type("application/problem+json").json(body);
+  };
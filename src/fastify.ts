@@ -0,0 +1,138 @@
+import type {
+  FastifyRequest,
+  onRequestAsyncHookHandler,
+  preValidationAsyncHookHandler,
+} from "fastify";
+import {
+  createAdapterValidator,
+  parseCookies,
+  viewOf,
+  type RequestView,
+} from "./adapter";
+import { createValidationRunner, type RequestAccessors } from "./core";
+import type {
+  InferValidationValues,
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationOptions,
+  ValidationProps,
+  ValidationValues,
+} from "./validate";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    validationErrors?: ValidationErrors;
+    validationValues?: ValidationValues;
+  }
+}
+
+declare module "./adapter" {
+  interface AdapterMiddlewares<P extends ValidationProps> {
+    fastify: FastifyValidationHook<P>;
+  }
+}
+
+/** Request seen by the handler of a route validated by the schemas `P` */
+export type FastifyValidatedRequest<
+  P extends ValidationProps = ValidationProps,
+> = FastifyRequest & {
+  validationValues?: ValidationValues & InferValidationValues<P>;
+};
+
+export interface FastifyValidationHook<
+  P extends ValidationProps = ValidationProps,
+> extends preValidationAsyncHookHandler {
+  /** Schemas validated by this hook */
+  readonly schemas: P;
+}
+
+const fastifyView = (request: FastifyRequest) =>
+  viewOf(request, () => ({
+    native: request,
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    route: request.routeOptions.url,
+  }));
+
+const nativeOf = (req: unknown) =>
+  (req as RequestView<FastifyRequest>).native as unknown as Record<
+    string,
+    unknown
+  >;
+
+/**
+ * Parts are read from the request, e.g. `request.user`. Cookies are parsed
+ * from the `Cookie` header when `@fastify/cookie` is not registered.
+ */
+const fastifyAccessors: RequestAccessors = {
+  read: (req, key) => {
+    const request = nativeOf(req);
+    if (key === "cookies") {
+      return (
+        request.cookies ??
+        parseCookies((request.headers as Record<string, string>).cookie)
+      );
+    }
+    return request[key];
+  },
+  write: (req, key, value) => {
+    // `headers` is a getter of the request prototype
+    Object.defineProperty(nativeOf(req), key, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+  },
+};
+
+/**
+ * Fastify `onRequest` hook setting the configs of the validations of every
+ * route, like `expressZodValidations`. Route options take precedence.
+ */
+export const fastifyZodValidations =
+  (configs: ValidationConfigs): onRequestAsyncHookHandler =>
+  async (request) => {
+    fastifyView(request).validationConfigs = configs;
+  };
+
+/**
+ * Fastify `preValidation` hook validating the request like `validate()`.
+ * Values and errors are stored in `request.validationValues` and
+ * `request.validationErrors`, and errors forwarded with `throwErrors` are
+ * thrown to the error handler.
+ */
+export const validate = <P extends ValidationProps>(
+  props: P,
+  options?: ValidationOptions,
+): FastifyValidationHook<P> => {
+  const run = createValidationRunner(props, options, fastifyAccessors);
+
+  const hook: preValidationAsyncHookHandler = async (request) => {
+    const view = fastifyView(request);
+    request.validationErrors = view.validationErrors;
+    request.validationValues = view.validationValues;
+
+    const error = await run(view);
+    if (error) throw error;
+  };
+
+  return Object.assign(hook, { schemas: props });
+};
+
+/**
+ * Creates Fastify `validate*` functions sharing default configs and parse
+ * options
+ */
+export const createValidator = createAdapterValidator<"fastify">(validate);
+
+export const {
+  validateHeaders,
+  validateParams,
+  validateQuery,
+  validateBody,
+  validateCookies,
+  validateFile,
+  validateFiles,
+} = createValidator();
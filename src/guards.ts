@@ -0,0 +1,139 @@
+import { ZodError, type z } from "zod";
+
+export interface GuardConfigs {
+  /** Maximum nesting of objects and arrays, the part itself being depth 1 */
+  maxDepth?: number;
+  maxArrayLength?: number;
+  /** Maximum number of keys of each object */
+  maxKeys?: number;
+  /** Rejects `__proto__`, `constructor` and `prototype` keys */
+  rejectProtoKeys?: boolean;
+  /** Maximum number of issues kept per part */
+  maxIssues?: number;
+  /** Milliseconds after which async parsing fails with a `ValidationTimeoutError` */
+  timeout?: number;
+}
+
+export type GuardName = "maxDepth" | "maxArrayLength" | "maxKeys" | "protoKey";
+
+const protoKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+const isContainer = (value: unknown): value is object => {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== "object" || value === null) return false;
+
+  // Buffers, files and other class instances are not walked
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const violation = (
+  guard: GuardName,
+  path: PropertyKey[],
+  message: string,
+  limit?: number,
+): z.core.$ZodIssue => ({
+  code: "custom",
+  path,
+  message,
+  input: undefined,
+  // Size guards answer 413 through `validationErrorHandler`
+  params: guard === "protoKey" ? { guard } : { guard, limit, status: 413 },
+});
+
+/**
+ * Walks a request part before parsing and returns the first guard it breaks,
+ * as a Zod issue. Only plain objects and arrays are walked.
+ */
+export const checkGuards = (
+  value: unknown,
+  guards: GuardConfigs,
+): z.core.$ZodIssue | undefined => {
+  const { maxDepth, maxArrayLength, maxKeys, rejectProtoKeys } = guards;
+  if (
+    maxDepth === undefined &&
+    maxArrayLength === undefined &&
+    maxKeys === undefined &&
+    !rejectProtoKeys
+  ) {
+    return undefined;
+  }
+
+  const stack: { value: unknown; path: PropertyKey[] }[] = [
+    { value, path: [] },
+  ];
+
+  while (stack.length) {
+    const { value: current, path } = stack.pop()!;
+    if (!isContainer(current)) continue;
+
+    const depth = path.length + 1;
+    if (maxDepth !== undefined && depth > maxDepth) {
+      return violation(
+        "maxDepth",
+        path,
+        `Too deeply nested, the maximum depth is ${maxDepth}`,
+        maxDepth,
+      );
+    }
+
+    if (Array.isArray(current)) {
+      if (maxArrayLength !== undefined && current.length > maxArrayLength) {
+        return violation(
+          "maxArrayLength",
+          path,
+          `Too many items, the maximum is ${maxArrayLength}`,
+          maxArrayLength,
+        );
+      }
+      current.forEach((item, index) =>
+        stack.push({ value: item, path: [...path, index] }),
+      );
+      continue;
+    }
+
+    const keys = Object.keys(current);
+    if (maxKeys !== undefined && keys.length > maxKeys) {
+      return violation(
+        "maxKeys",
+        path,
+        `Too many keys, the maximum is ${maxKeys}`,
+        maxKeys,
+      );
+    }
+
+    for (const key of keys) {
+      if (rejectProtoKeys && protoKeys.has(key)) {
+        return violation("protoKey", [...path, key], `Forbidden key "${key}"`);
+      }
+      stack.push({
+        value: (current as Record<string, unknown>)[key],
+        path: [...path, key],
+      });
+    }
+  }
+
+  return undefined;
+};
+
+/** Rejects with `onTimeout()` when `promise` takes longer than `timeout` ms */
+export const withTimeout = <T>(
+  promise: Promise<T>,
+  timeout: number,
+  onTimeout: () => Error,
+): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(onTimeout()), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+/** Keeps the first `maxIssues` issues of `error` */
+export const capIssues = (error: ZodError, maxIssues?: number): ZodError =>
+  maxIssues === undefined || error.issues.length <= maxIssues
+    ? error
+    : new ZodError(error.issues.slice(0, maxIssues));
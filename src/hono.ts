@@ -0,0 +1,174 @@
+import type { Context, MiddlewareHandler } from "hono";
+import {
+  createAdapterValidator,
+  overwriteView,
+  parseCookies,
+  viewOf,
+  type RequestView,
+} from "./adapter";
+import { createValidationRunner, type RequestAccessors } from "./core";
+import type {
+  InferValidationValues,
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationKey,
+  ValidationOptions,
+  ValidationProps,
+  ValidationValues,
+} from "./validate";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    validationErrors: ValidationErrors;
+    validationValues: ValidationValues;
+  }
+}
+
+declare module "./adapter" {
+  interface AdapterMiddlewares<P extends ValidationProps> {
+    hono: HonoValidationMiddleware<P>;
+  }
+}
+
+/**
+ * Variables set by the validation middlewares, typed from the schemas `P`,
+ * which Hono carries to the next handlers
+ */
+export interface HonoValidationVariables<
+  P extends ValidationProps = ValidationProps,
+> {
+  validationErrors: ValidationErrors;
+  validationValues: ValidationValues & InferValidationValues<P>;
+}
+
+export interface HonoValidationMiddleware<
+  P extends ValidationProps = ValidationProps,
+> extends MiddlewareHandler<{ Variables: HonoValidationVariables<P> }> {
+  /** Schemas validated by this middleware */
+  readonly schemas: P;
+}
+
+const honoView = (c: Context) =>
+  viewOf(c, () => ({
+    native: c,
+    method: c.req.method,
+    url: c.req.url.slice(c.req.url.indexOf("/", c.req.url.indexOf("//") + 2)),
+    headers: c.req.header(),
+    route: c.req.routePath,
+  }));
+
+/** Repeated query parameters become arrays, like in Express */
+const readQuery = (c: Context) =>
+  Object.fromEntries(
+    Object.entries(c.req.queries()).map(([name, values]) => [
+      name,
+      values.length === 1 ? values[0] : values,
+    ]),
+  );
+
+/**
+ * Reads the body by content type. Malformed bodies are read as `undefined`,
+ * so that they are reported as invalid.
+ */
+const readBody = async (c: Context) => {
+  const type = c.req.header("Content-Type")?.split(";")[0].trim() ?? "";
+  try {
+    if (type === "application/json" || type.endsWith("+json")) {
+      return await c.req.json();
+    }
+    if (
+      type === "application/x-www-form-urlencoded" ||
+      type === "multipart/form-data"
+    ) {
+      return await c.req.parseBody({ all: true });
+    }
+    if (type.startsWith("text/")) return await c.req.text();
+  } catch {
+    return undefined;
+  }
+  return undefined;
+};
+
+const readPart = (c: Context, key: ValidationKey) => {
+  switch (key) {
+    case "params":
+      return c.req.param();
+    case "query":
+      return readQuery(c);
+    case "cookies":
+      return parseCookies(c.req.header("Cookie"));
+    default:
+      return c.get(key as never);
+  }
+};
+
+/**
+ * Hono requests cannot be changed, so parts are read once into the view,
+ * which also receives the parsed values with `overwriteRequest`. Parts other
+ * than the request ones are read from the context variables, e.g.
+ * `c.get("user")`.
+ */
+const honoAccessors: RequestAccessors = {
+  read: (req, key) => {
+    const view = req as RequestView<Context> & Record<string, unknown>;
+    if (!(key in view)) view[key] = readPart(view.native, key);
+    return view[key];
+  },
+  write: overwriteView,
+};
+
+/**
+ * Hono middleware setting the configs of the validations of every route, like
+ * `expressZodValidations`. Route options take precedence.
+ */
+export const honoZodValidations =
+  (configs: ValidationConfigs): MiddlewareHandler =>
+  async (c, next) => {
+    honoView(c).validationConfigs = configs;
+    await next();
+  };
+
+/**
+ * Hono middleware validating the request like `validate()`. Values and errors
+ * are stored in the `validationValues` and `validationErrors` variables, and
+ * errors forwarded with `throwErrors` are thrown to `app.onError`.
+ */
+export const validate = <P extends ValidationProps>(
+  props: P,
+  options?: ValidationOptions,
+): HonoValidationMiddleware<P> => {
+  const run = createValidationRunner(props, options, honoAccessors);
+
+  const middleware: MiddlewareHandler<{
+    Variables: HonoValidationVariables<P>;
+  }> = async (c, next) => {
+    const view = honoView(c);
+    c.set("validationErrors", view.validationErrors!);
+    c.set(
+      "validationValues",
+      view.validationValues as HonoValidationVariables<P>["validationValues"],
+    );
+
+    // Bodies are read asynchronously, before the validation
+    if (props.body && view.body === undefined) view.body = await readBody(c);
+
+    const error = await run(view);
+    if (error) throw error;
+    await next();
+  };
+
+  return Object.assign(middleware, { schemas: props });
+};
+
+/** Creates Hono `validate*` functions sharing default configs and parse options */
+export const createValidator = createAdapterValidator<"hono">(validate);
+
+export const {
+  validateHeaders,
+  validateParams,
+  validateQuery,
+  validateBody,
+  validateCookies,
+  validateFile,
+  validateFiles,
+} = createValidator();
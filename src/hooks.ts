@@ -0,0 +1,55 @@
+import type { Request } from "express";
+import type { z } from "zod";
+import type { ValidationKey } from "./validate";
+
+export interface ValidationEvent {
+  req: Request;
+  method: string;
+  /** Route path, including the mount path of its router, e.g. `/api/users/:id` */
+  route: string;
+  part: ValidationKey;
+  /** Parse duration in milliseconds, async refinements included */
+  duration: number;
+  success: boolean;
+  issues: z.core.$ZodIssue[];
+}
+
+export interface ValidationHooks {
+  /** Called for every part that passes validation */
+  onSuccess?: (event: ValidationEvent) => void;
+  /** Called for every part that fails validation */
+  onFailure?: (event: ValidationEvent) => void;
+  /** Called for every validated part, after `onSuccess` or `onFailure` */
+  onComplete?: (event: ValidationEvent) => void;
+}
+
+export const hasHooks = (hooks?: ValidationHooks): hooks is ValidationHooks =>
+  !!(hooks?.onSuccess || hooks?.onFailure || hooks?.onComplete);
+
+/** Route of a request, without the values of its parameters */
+export const routeOf = (req: Request) => {
+  const path: unknown = req.route?.path;
+  return typeof path === "string"
+    ? `${req.baseUrl}${path}`
+    : req.baseUrl || "*";
+};
+
+/** Calls a hook, ignoring its errors: hooks never change the response */
+const call = (
+  hook: ((event: ValidationEvent) => unknown) | undefined,
+  event: ValidationEvent,
+) => {
+  try {
+    const called = hook?.(event);
+    if (called instanceof Promise) called.catch(() => undefined);
+  } catch {
+    // The next hooks are still called
+  }
+};
+
+export const emit = (hooks: ValidationHooks[], event: ValidationEvent) => {
+  for (const { onSuccess, onFailure, onComplete } of hooks) {
+    call(event.success ? onSuccess : onFailure, event);
+    call(onComplete, event);
+  }
+};
@@ -1,81 +1,47 @@
-import { NextFunction, Request, Response } from "express";
-import { ZodError, type ZodType } from "zod";
-
-export interface ValidationConfigs {
-  throwErrors?: boolean;
-  overwriteRequest?: boolean;
-}
-
-type ValidationKey = "headers" | "params" | "query" | "body";
-
-export interface ValidationErrors extends Partial<
-  Record<ValidationKey, ZodError>
-> {}
-export interface ValidationValues extends Partial<
-  Record<ValidationKey, unknown>
-> {}
-
-export interface ValidationRequest extends Request {
-  validationConfigs?: ValidationConfigs;
-  validationErrors?: ValidationErrors;
-  validationValues?: ValidationValues;
-}
-
-export type ValidationProps = Partial<Record<ValidationKey, ZodType>>;
-export type ValidationOptions = Parameters<ZodType["parse"]>[1];
-
-export const expressZodValidations =
-  (configs: ValidationConfigs) =>
-  (req: ValidationRequest, _: Response, next: NextFunction) => {
-    req.validationConfigs = configs;
-    next();
-  };
-
-export const validate =
-  (props: ValidationProps, options?: ValidationOptions) =>
-  async (req: ValidationRequest, _: Response, next: NextFunction) => {
-    try {
-      req.validationConfigs ??= {};
-      req.validationErrors ??= {};
-      req.validationValues ??= {};
-
-      const { throwErrors = false, overwriteRequest = false } =
-        req.validationConfigs;
-
-      for (const [key, schema] of Object.entries(props) as [
-        ValidationKey,
-        ZodType,
-      ][]) {
-        if (!schema) continue;
-
-        const result = await schema.safeParseAsync(req[key], options);
-
-        if (result.success) {
-          delete req.validationErrors[key];
-          req.validationValues[key] = result.data;
-          if (overwriteRequest) req[key] = result.data as never;
-        } else {
-          req.validationErrors[key] = result.error;
-          delete req.validationValues[key];
-          if (throwErrors) return next(result.error);
-        }
-      }
-
-      next();
-    } catch (error) {
-      next(error);
-    }
-  };
-
-export const validateHeaders = (
-  headers: ZodType,
-  options?: ValidationOptions,
-) => validate({ headers }, options);
-export const validateParams = (params: ZodType, options?: ValidationOptions) =>
-  validate({ params }, options);
-export const validateQuery = (query: ZodType, options?: ValidationOptions) =>
-  validate({ query }, options);
-export const validateBody = (body: ZodType, options?: ValidationOptions) =>
-  validate({ body }, options);
+import { validate } from "./validate";
+
+export * from "./validate";
+export * from "./client";
+export * from "./content";
+export {
+  cachedSchema,
+  validationContext,
+  type CachedSchemaConfigs,
+  type ContextFactory,
+  type SchemaFactory,
+  type ValidationContext,
+} from "./context";
+export * from "./contract";
+export {
+  createValidationRunner,
+  type RequestAccessors,
+  type ValidationRunner,
+} from "./core";
+export * from "./errors";
+export { type GuardConfigs } from "./guards";
+export { type ValidationEvent, type ValidationHooks } from "./hooks";
+export { type RedactConfigs } from "./redact";
+export {
+  negotiateLocale,
+  type LocaleCatalog,
+  type LocaleConfigs,
+  type LocaleMessages,
+} from "./locale";
+export * from "./metrics";
+export * from "./openapi";
+export {
+  patchSchema,
+  touchedPaths,
+  type DeepPartial,
+  type PatchConfigs,
+  type PatchOptions,
+} from "./patch";
+export * from "./response";
+export {
+  type ShadowConfigs,
+  type ShadowDisagreement,
+  type ShadowReport,
+} from "./shadow";
+export * from "./stream";
 
 export default validate;
@@ -0,0 +1,66 @@
+import type { ZodType } from "zod";
+
+/** Members of the definitions of Zod schemas read when walking them */
+export interface SchemaDef {
+  type: string;
+  innerType?: ZodType;
+  in?: ZodType;
+  getter?: () => ZodType;
+  element?: ZodType;
+  shape?: Record<string, ZodType>;
+  catchall?: ZodType;
+  items?: ZodType[];
+  rest?: ZodType | null;
+  options?: ZodType[];
+  left?: ZodType;
+  right?: ZodType;
+  keyType?: ZodType;
+  valueType?: ZodType;
+  entries?: Record<string, string | number>;
+  values?: unknown[];
+  parts?: unknown[];
+  format?: string;
+}
+
+export const defOf = (schema: ZodType) =>
+  (schema as unknown as { _zod: { def: SchemaDef } })._zod.def;
+
+const wrappers = [
+  "optional",
+  "nullable",
+  "default",
+  "prefault",
+  "catch",
+  "readonly",
+  "nonoptional",
+];
+
+/** Unwraps optional, default, pipe and similar schemas down to the input type */
+export const unwrap = (schema: ZodType): ZodType => {
+  const def = defOf(schema);
+
+  if (wrappers.includes(def.type) && def.innerType) {
+    return unwrap(def.innerType);
+  }
+  if (def.type === "pipe" && def.in) return unwrap(def.in);
+  if (def.type === "lazy" && def.getter) return unwrap(def.getter());
+  return schema;
+};
+
+/**
+ * Objects of key-value pairs, as built by literals and `JSON.parse`, or
+ * without `Object.prototype`, as Node headers and the query strings parsed by
+ * Express and Fastify. Arrays, dates, files and other class instances are not.
+ */
+export const isPlainObject = (
+  value: unknown,
+): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    prototype === null ||
+    prototype === Object.prototype ||
+    // Objects created from a prototype-less prototype, for speed
+    Object.getPrototypeOf(prototype) === null
+  );
+};
@@ -0,0 +1,153 @@
+import type { Context, DefaultState, Middleware } from "koa";
+import {
+  createAdapterValidator,
+  parseCookies,
+  viewOf,
+  type RequestView,
+} from "./adapter";
+import { createValidationRunner, type RequestAccessors } from "./core";
+import type {
+  InferValidationValues,
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationOptions,
+  ValidationProps,
+  ValidationValues,
+} from "./validate";
+
+declare module "./adapter" {
+  interface AdapterMiddlewares<P extends ValidationProps> {
+    koa: KoaValidationMiddleware<P>;
+  }
+}
+
+/** Koa context extended by `@koa/router` */
+type RouterContext = Context & {
+  params?: Record<string, string>;
+  _matchedRoute?: string | RegExp;
+};
+
+/**
+ * Members added to `ctx.state` by the validation middlewares, typed from the
+ * schemas `P`, which routers carry to the next middlewares. Other members are
+ * left to other middlewares, as in the default Koa state.
+ */
+export interface KoaValidationState<
+  P extends ValidationProps = ValidationProps,
+> extends DefaultState {
+  validationErrors: ValidationErrors;
+  validationValues: ValidationValues & InferValidationValues<P>;
+}
+
+export interface KoaValidationMiddleware<
+  P extends ValidationProps = ValidationProps,
+> extends Middleware<KoaValidationState<P>> {
+  /** Schemas validated by this middleware */
+  readonly schemas: P;
+}
+
+const koaView = (ctx: RouterContext) =>
+  viewOf(ctx, () => ({
+    native: ctx,
+    method: ctx.method,
+    url: ctx.originalUrl,
+    headers: ctx.headers,
+    route:
+      typeof ctx._matchedRoute === "string" ? ctx._matchedRoute : undefined,
+  }));
+
+const nativeOf = (req: unknown) => (req as RequestView<RouterContext>).native;
+
+/**
+ * Headers, params (from `@koa/router`), query and body (from a body parser)
+ * are read from the context. Other parts are read from `ctx.request`, then
+ * from `ctx.state`, e.g. `ctx.state.user`.
+ */
+const koaAccessors: RequestAccessors = {
+  read: (req, key) => {
+    const ctx = nativeOf(req);
+    switch (key) {
+      case "headers":
+        return ctx.headers;
+      case "params":
+        return ctx.params;
+      case "query":
+        return ctx.query;
+      case "body":
+        // Set by a body parser such as `@koa/bodyparser`
+        return (ctx.request as { body?: unknown }).body;
+      case "cookies":
+        return parseCookies(ctx.get("Cookie") || undefined);
+      default:
+        return (
+          (ctx.request as unknown as Record<string, unknown>)[key] ??
+          ctx.state[key]
+        );
+    }
+  },
+  write: (req, key, value) => {
+    const ctx = nativeOf(req);
+    if (key === "params") {
+      ctx.params = value as Record<string, string>;
+    } else if (key in ctx.request) {
+      // `query` and `headers` are getters of the request prototype
+      Object.defineProperty(ctx.request, key, {
+        value,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    } else {
+      ctx.state[key] = value;
+    }
+  },
+};
+
+/**
+ * Koa middleware setting the configs of the validations of every route, like
+ * `expressZodValidations`. Route options take precedence.
+ */
+export const koaZodValidations =
+  (configs: ValidationConfigs): Middleware =>
+  (ctx, next) => {
+    koaView(ctx).validationConfigs = configs;
+    return next();
+  };
+
+/**
+ * Koa middleware validating the request like `validate()`. Values and errors
+ * are stored in `ctx.state.validationValues` and `ctx.state.validationErrors`,
+ * and errors forwarded with `throwErrors` are thrown.
+ */
+export const validate = <P extends ValidationProps>(
+  props: P,
+  options?: ValidationOptions,
+): KoaValidationMiddleware<P> => {
+  const run = createValidationRunner(props, options, koaAccessors);
+
+  const middleware: Middleware<KoaValidationState<P>> = async (ctx, next) => {
+    const view = koaView(ctx);
+    ctx.state.validationErrors = view.validationErrors!;
+    ctx.state.validationValues =
+      view.validationValues as KoaValidationState<P>["validationValues"];
+
+    const error = await run(view);
+    if (error) throw error;
+    await next();
+  };
+
+  return Object.assign(middleware, { schemas: props });
+};
+
+/** Creates Koa `validate*` functions sharing default configs and parse options */
+export const createValidator = createAdapterValidator<"koa">(validate);
+
+export const {
+  validateHeaders,
+  validateParams,
+  validateQuery,
+  validateBody,
+  validateCookies,
+  validateFile,
+  validateFiles,
+} = createValidator();
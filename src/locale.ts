@@ -0,0 +1,103 @@
+import type { Request } from "express";
+import type { z } from "zod";
+
+type ErrorMap = z.core.$ZodErrorMap;
+type Issue = z.core.$ZodRawIssue;
+
+/** Messages per issue code, e.g. `{ invalid_type: "Type invalide" }` */
+export type LocaleCatalog = Partial<
+  Record<z.core.$ZodIssue["code"], string | ((issue: Issue) => string)>
+>;
+
+/**
+ * A Zod 4 locale bundle (`z.locales.fr()`), an error map, or a catalog of
+ * messages per issue code.
+ */
+export type LocaleMessages =
+  { localeError: ErrorMap } | ErrorMap | LocaleCatalog;
+
+export interface LocaleConfigs {
+  /** Available locales, keyed by language tag (`fr`, `pt-BR`, ...) */
+  locales?: Record<string, LocaleMessages>;
+  /** Locale used when none of the accepted languages is available */
+  defaultLocale?: string;
+  /** Picks the locale of a request, instead of `Accept-Language` */
+  resolveLocale?: (req: Request) => string | undefined;
+}
+
+const toErrorMap = (messages: LocaleMessages): ErrorMap => {
+  if (typeof messages === "function") return messages;
+  if ("localeError" in messages && typeof messages.localeError === "function") {
+    return messages.localeError;
+  }
+
+  const catalog = messages as LocaleCatalog;
+  return (issue) => {
+    const message = catalog[issue.code as keyof LocaleCatalog];
+    return typeof message === "function" ? message(issue) : message;
+  };
+};
+
+/** Parses `Accept-Language` into language tags, by decreasing preference */
+const parseAcceptLanguage = (header: string) =>
+  header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find(Boolean);
+      return { tag: tag.trim(), q: q === undefined ? 1 : Number(q), index };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+
+/**
+ * Picks the best available locale for an `Accept-Language` header, matching
+ * exact tags first, then primary subtags (`fr-CA` accepts `fr`).
+ */
+export const negotiateLocale = (
+  header: string | undefined,
+  available: string[],
+): string | undefined => {
+  const byTag = new Map(available.map((tag) => [tag.toLowerCase(), tag]));
+
+  for (const tag of parseAcceptLanguage(header ?? "")) {
+    const lower = tag.toLowerCase();
+    const match = byTag.get(lower) ?? byTag.get(lower.split("-")[0]);
+    if (match) return match;
+  }
+
+  return undefined;
+};
+
+export const resolveLocale = (
+  req: Request,
+  configs: LocaleConfigs,
+): string | undefined => {
+  const { locales = {}, defaultLocale, resolveLocale } = configs;
+
+  const locale = resolveLocale
+    ? resolveLocale(req)
+    : negotiateLocale(req.headers["accept-language"], Object.keys(locales));
+
+  return locale && locale in locales ? locale : defaultLocale;
+};
+
+/**
+ * Builds the per-parse error map of a locale, falling back from `error` to the
+ * locale messages. Zod's global config is never touched, so concurrent
+ * requests keep their own locale.
+ */
+export const localizeErrorMap = (
+  locale: string | undefined,
+  configs: LocaleConfigs,
+  error?: ErrorMap,
+): ErrorMap | undefined => {
+  const messages = locale ? configs.locales?.[locale] : undefined;
+  if (!messages) return error;
+
+  const localeError = toErrorMap(messages);
+  return error ? (issue) => error(issue) ?? localeError(issue) : localeError;
+};
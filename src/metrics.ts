@@ -0,0 +1,145 @@
+import type { Request, Response } from "express";
+import type { ValidationEvent, ValidationHooks } from "./hooks";
+
+type Labels = Record<string, string>;
+
+export interface PrometheusMetricsConfigs {
+  /** Prefix of the metric names (default: `"validation_"`) */
+  prefix?: string;
+  /** Upper bounds of the duration histogram buckets, in seconds */
+  buckets?: number[];
+}
+
+export interface PrometheusMetrics {
+  /** Hooks to pass to `expressZodValidations` or to a route */
+  hooks: ValidationHooks;
+  /** Metrics in the Prometheus text exposition format */
+  metrics: () => string;
+  /** Route handler serving `metrics()`, e.g. on `/metrics` */
+  handler: (req: Request, res: Response) => void;
+  /** Clears every recorded value */
+  reset: () => void;
+}
+
+const defaultBuckets = [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length
+    ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`
+    : "";
+};
+
+const createCounter = (name: string, help: string) => {
+  const values = new Map<string, number>();
+
+  return {
+    inc: (labels: Labels, amount = 1) => {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + amount);
+    },
+    reset: () => values.clear(),
+    print: () =>
+      [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...[...values].map(([key, value]) => `${name}${key} ${value}`),
+      ].join("\n"),
+  };
+};
+
+const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = formatLabels(labels);
+      const entry = values.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((bound, index) => {
+        if (value <= bound) entry.counts[index]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      values.set(key, entry);
+    },
+    reset: () => values.clear(),
+    print: () =>
+      [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} histogram`,
+        ...[...values.values()].flatMap(({ labels, counts, sum, count }) => [
+          ...buckets.map(
+            (bound, index) =>
+              `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`,
+          ),
+          `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${sum}`,
+          `${name}_count${formatLabels(labels)} ${count}`,
+        ]),
+      ].join("\n"),
+  };
+};
+
+/**
+ * Records validation outcomes in an in-process registry, exposed in the
+ * Prometheus text format: parts validated per result, issues per code, and
+ * parse durations.
+ */
+export const prometheusMetrics = (
+  configs: PrometheusMetricsConfigs = {},
+): PrometheusMetrics => {
+  const { prefix = "validation_", buckets = defaultBuckets } = configs;
+  const sortedBuckets = [...buckets].sort((a, b) => a - b);
+
+  const parts = createCounter(
+    `${prefix}parts_total`,
+    "Validated request parts, by result",
+  );
+  const issues = createCounter(
+    `${prefix}issues_total`,
+    "Validation issues, by issue code",
+  );
+  const duration = createHistogram(
+    `${prefix}duration_seconds`,
+    "Duration of request part validation",
+    sortedBuckets,
+  );
+  const registry = [parts, issues, duration];
+
+  const onComplete = (event: ValidationEvent) => {
+    const labels = {
+      method: event.method,
+      route: event.route,
+      part: event.part,
+    };
+
+    parts.inc({ ...labels, result: event.success ? "success" : "failure" });
+    for (const issue of event.issues) {
+      issues.inc({ ...labels, code: issue.code });
+    }
+    duration.observe(labels, event.duration / 1000);
+  };
+
+  const metrics = () =>
+    `${registry.map((metric) => metric.print()).join("\n")}\n`;
+
+  return {
+    hooks: { onComplete },
+    metrics,
+    handler: (_, res) => {
+      res.type("text/plain; version=0.0.4; charset=utf-8").send(metrics());
+    },
+    reset: () => registry.forEach((metric) => metric.reset()),
+  };
+};
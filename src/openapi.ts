@@ -0,0 +1,258 @@
+import { Request, Response } from "express";
+import { z, ZodType } from "zod";
+import { isSchemaFactory } from "./context";
+import type { ValidationKey, ValidationProps } from "./validate";
+import type { ContentSchemas } from "./content";
+import type { ResponseSchemas } from "./response";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiOperation {
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema: JsonSchema }> }
+  >;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; [key: string]: unknown };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+interface StackLayer {
+  method?: string;
+  route?: { path: unknown; stack: StackLayer[] };
+  matchers?: ((path: string) => unknown)[];
+  handle: {
+    stack?: StackLayer[];
+    schemas?: ValidationProps;
+    responseSchemas?: ResponseSchemas;
+    contentSchemas?: ContentSchemas;
+  };
+}
+
+/** An Express app or router */
+export type RouterLike = { stack?: unknown } | { router?: unknown };
+
+export interface OpenApiConfigs {
+  info: OpenApiDocument["info"];
+  servers?: OpenApiDocument["servers"];
+  /**
+   * Full paths of routers and sub-apps mounted with `app.use(path, router)`.
+   * Express does not keep mount paths on the stack, so routers not mounted at
+   * the root and missing here are skipped.
+   */
+  mounts?: [path: string, router: RouterLike][];
+}
+
+const parameterLocations: Partial<
+  Record<ValidationKey, OpenApiParameter["in"]>
+> = {
+  params: "path",
+  query: "query",
+  headers: "header",
+  cookies: "cookie",
+  signedCookies: "cookie",
+};
+
+const stackOf = (router: RouterLike) =>
+  (("router" in router ? router.router : router) as { stack?: StackLayer[] })
+    ?.stack;
+
+const toJsonSchema = (schema: ZodType, io: "input" | "output") => {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    unrepresentable: "any",
+    io,
+  }) as JsonSchema;
+  return jsonSchema;
+};
+
+/** Converts Express path syntax (`/users/:id`, `/files/*path`) to OpenAPI */
+const toOpenApiPath = (path: string) =>
+  path.replace(/[{}]/g, "").replace(/[:*](\w+)/g, "{$1}") || "/";
+
+const joinPaths = (prefix: string, path: string) =>
+  `${prefix.replace(/\/+$/, "")}${path === "/" && prefix ? "" : path}`;
+
+const toParameters = (
+  schema: ZodType,
+  location: OpenApiParameter["in"],
+): OpenApiParameter[] => {
+  const jsonSchema = toJsonSchema(schema, "input");
+  const properties = (jsonSchema.properties ?? {}) as Record<
+    string,
+    JsonSchema
+  >;
+  const required = new Set((jsonSchema.required ?? []) as string[]);
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || required.has(name),
+      schema: propertySchema,
+      ...(typeof description === "string" && { description }),
+    };
+  });
+};
+
+const toOperation = (
+  props: ValidationProps,
+  responses?: ResponseSchemas,
+  content?: ContentSchemas,
+): OpenApiOperation => {
+  const operation: OpenApiOperation = { responses: {} };
+
+  for (const [key, schema] of Object.entries(props) as [
+    ValidationKey,
+    ValidationProps[ValidationKey],
+  ][]) {
+    // Schemas built from the request cannot be documented
+    if (!schema || isSchemaFactory(schema)) continue;
+    const location = parameterLocations[key];
+
+    if (location) {
+      operation.parameters = [
+        ...(operation.parameters ?? []),
+        ...toParameters(schema, location),
+      ];
+    } else if (key === "body") {
+      const schemas = content ?? { "application/json": schema };
+      operation.requestBody = {
+        // Read from the definition, so that async refinements are not run
+        required: schema._zod.optin !== "optional",
+        content: Object.fromEntries(
+          Object.entries(schemas).map(([type, typeSchema]) => [
+            type,
+            { schema: toJsonSchema(typeSchema, "input") },
+          ]),
+        ),
+      };
+    }
+  }
+
+  const byStatus =
+    responses instanceof ZodType ? { 200: responses } : (responses ?? {});
+
+  for (const [status, schema] of Object.entries(byStatus)) {
+    if (!schema) continue;
+    operation.responses[status] = {
+      description: status === "default" ? "Default response" : "Response",
+      content: {
+        "application/json": { schema: toJsonSchema(schema, "output") },
+      },
+    };
+  }
+
+  if (!Object.keys(operation.responses).length) {
+    operation.responses.default = { description: "Default response" };
+  }
+
+  return operation;
+};
+
+const collectRoutes = (
+  stack: StackLayer[],
+  prefix: string,
+  mounted: Set<unknown>,
+  paths: OpenApiDocument["paths"],
+) => {
+  for (const layer of stack) {
+    if (layer.route) {
+      const routePaths = [layer.route.path].flat();
+
+      for (const routePath of routePaths) {
+        if (typeof routePath !== "string") continue;
+        const path = toOpenApiPath(joinPaths(prefix, routePath));
+
+        const methods = new Map<string, StackLayer[]>();
+        for (const routeLayer of layer.route.stack) {
+          if (!routeLayer.method || routeLayer.method === "_all") continue;
+          methods.set(routeLayer.method, [
+            ...(methods.get(routeLayer.method) ?? []),
+            routeLayer,
+          ]);
+        }
+
+        for (const [method, layers] of methods) {
+          const props = Object.assign(
+            {},
+            ...layers.map((routeLayer) => routeLayer.handle.schemas),
+          ) as ValidationProps;
+          const responses = layers.find(
+            (routeLayer) => routeLayer.handle.responseSchemas,
+          )?.handle.responseSchemas;
+
+          const content = layers.find(
+            (routeLayer) => routeLayer.handle.contentSchemas,
+          )?.handle.contentSchemas;
+
+          if (!Object.keys(props).length && !responses) continue;
+
+          paths[path] ??= {};
+          paths[path][method] = toOperation(props, responses, content);
+        }
+      }
+    } else if (layer.handle.stack && !mounted.has(layer.handle)) {
+      // Nested routers are only walked when mounted at the root
+      if (layer.matchers?.some((matcher) => matcher("/"))) {
+        collectRoutes(layer.handle.stack, prefix, mounted, paths);
+      }
+    }
+  }
+};
+
+/**
+ * Builds an OpenAPI 3.1 document from the routes of an app or router that use
+ * `validate()` and `validateResponse()`.
+ */
+export const generateOpenApi = (
+  app: RouterLike,
+  configs: OpenApiConfigs,
+): OpenApiDocument => {
+  const { mounts = [], ...document } = configs;
+  const paths: OpenApiDocument["paths"] = {};
+  const routers = mounts.map(
+    ([path, router]) => [path, stackOf(router)] as const,
+  );
+  const mounted = new Set(
+    mounts.map(([, router]) => ("router" in router ? router.router : router)),
+  );
+
+  collectRoutes(stackOf(app) ?? [], "", mounted, paths);
+  for (const [path, stack] of routers) {
+    collectRoutes(stack ?? [], path, mounted, paths);
+  }
+
+  return { openapi: "3.1.0", ...document, paths };
+};
+
+/**
+ * Serves the OpenAPI document of `app`. The document is generated on the first
+ * request, once every route has been registered.
+ */
+export const serveOpenApi = (app: RouterLike, configs: OpenApiConfigs) => {
+  let document: OpenApiDocument | undefined;
+
+  return (_: Request, res: Response) => {
+    document ??= generateOpenApi(app, configs);
+    res.json(document);
+  };
+};
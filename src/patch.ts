@@ -0,0 +1,177 @@
+import type { NextFunction, Response } from "express";
+import { z, type ZodType } from "zod";
+import { isPlainObject } from "./introspection";
+import type {
+  ValidationMiddleware,
+  ValidationOptions,
+  ValidationRequest,
+} from "./validate";
+
+export interface PatchConfigs {
+  /**
+   * - `schema`: `null` is accepted where the full schema accepts it
+   * - `optional`: `null` is also accepted for the fields that are optional in
+   *   the full schema, so that they can be cleared
+   */
+  nulls?: "schema" | "optional";
+  /**
+   * Keeps the refinements of objects, e.g. a check that `password` equals
+   * `confirm`. They then receive the partial values, and must accept omitted
+   * fields. Dropped by default.
+   */
+  keepRefinements?: boolean;
+}
+
+export type PatchOptions = ValidationOptions & {
+  /** Validates a deep-partial copy of the schema, for `PATCH` requests */
+  patch: true | PatchConfigs;
+};
+
+type Opaque =
+  | readonly unknown[]
+  | Date
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+/** Objects and nested objects with optional fields, arrays being kept whole */
+export type DeepPartial<T> = T extends Opaque
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+type Def = Record<string, unknown> & { type: string };
+
+const defOf = (schema: ZodType) => schema._zod.def as unknown as Def;
+
+/**
+ * Copy of an object schema whose fields, and the fields of its nested
+ * objects, are optional. Arrays, records and unions are kept whole, and pipes
+ * (`.transform()`, `z.preprocess()`) are rebuilt around the copies. Defaults
+ * are dropped, so that omitted fields stay omitted, and so are the
+ * refinements of objects, which may depend on omitted fields, unless
+ * `keepRefinements` is set. Throws when the schema holds no object.
+ */
+export const patchSchema = <T extends ZodType>(
+  schema: T,
+  configs: PatchConfigs = {},
+): ZodType<DeepPartial<z.output<T>>> => {
+  const { nulls = "schema", keepRefinements = false } = configs;
+  // Objects being copied, so that recursive schemas are copied once
+  const ancestors = new Set<ZodType>();
+  let copied = false;
+
+  const partial = (current: ZodType): ZodType => {
+    if (ancestors.has(current)) return current;
+    const def = defOf(current);
+
+    switch (def.type) {
+      case "object": {
+        ancestors.add(current);
+        const shape = Object.fromEntries(
+          Object.entries(def.shape as Record<string, ZodType>).map(
+            ([key, field]) => {
+              const copy = partial(field);
+              const clearable =
+                nulls === "optional" && field._zod.optin === "optional";
+              return [key, (clearable ? copy.nullable() : copy).optional()];
+            },
+          ),
+        );
+        ancestors.delete(current);
+        copied = true;
+
+        const object = z.object(shape);
+        const checks = (keepRefinements && def.checks) || [];
+        return (
+          def.catchall ? object.catchall(def.catchall as ZodType) : object
+        ).check(...(checks as z.core.$ZodCheck<Record<string, unknown>>[]));
+      }
+      case "optional":
+        return partial(def.innerType as ZodType).optional();
+      case "nullable":
+        return partial(def.innerType as ZodType).nullable();
+      case "readonly":
+        return partial(def.innerType as ZodType).readonly();
+      case "default":
+      case "prefault":
+        return partial(def.innerType as ZodType);
+      case "pipe":
+        return z.pipe(partial(def.in as ZodType), partial(def.out as ZodType));
+      default:
+        return current;
+    }
+  };
+
+  const copy = partial(schema);
+  if (!copied) {
+    throw new Error(
+      `Cannot derive a partial schema from a schema of type ${defOf(schema).type}: patch expects an object schema`,
+    );
+  }
+  return copy as ZodType<DeepPartial<z.output<T>>>;
+};
+
+/**
+ * Dot-separated paths of the fields set in a parsed patch, e.g.
+ * `address.city`. Nested objects are walked, other values (including `null`
+ * and arrays) are reported under the path of their field.
+ */
+export const touchedPaths = (schema: ZodType, value: unknown) => {
+  const paths = new Set<string>();
+
+  const visit = (current: ZodType, input: unknown, path: string[]) => {
+    const def = defOf(current);
+
+    if (["optional", "nullable", "readonly"].includes(def.type)) {
+      return visit(def.innerType as ZodType, input, path);
+    }
+    // The output of a transform is read against the schema of its input
+    if (def.type === "pipe") {
+      const out = def.out as ZodType;
+      return visit(
+        defOf(out).type === "transform" ? (def.in as ZodType) : out,
+        input,
+        path,
+      );
+    }
+    if (def.type !== "object" || !isPlainObject(input)) {
+      if (path.length) paths.add(path.join("."));
+      return;
+    }
+
+    const shape = def.shape as Record<string, ZodType>;
+    for (const [key, field] of Object.entries(input)) {
+      if (field === undefined) continue;
+      if (Object.prototype.hasOwnProperty.call(shape, key)) {
+        visit(shape[key], field, [...path, key]);
+      } else {
+        paths.add([...path, key].join("."));
+      }
+    }
+  };
+
+  visit(schema, value, []);
+  return paths;
+};
+
+/**
+ * Stores the touched paths of the body in `req.validationTouched` once the
+ * body validated by `middleware` is valid.
+ */
+export const withTouchedPaths = <M extends ValidationMiddleware<any>>(
+  middleware: M,
+  schema: ZodType,
+): M =>
+  Object.assign(
+    (req: ValidationRequest, res: Response, next: NextFunction) =>
+      middleware(req, res, (error?: unknown) => {
+        const body = req.validationValues?.body;
+        if (!req.validationErrors?.body && body !== undefined) {
+          req.validationTouched = touchedPaths(schema, body);
+        }
+        next(error);
+      }),
+    { schemas: middleware.schemas },
+  ) as M;
@@ -0,0 +1,215 @@
+import { z, ZodError, type ZodType } from "zod";
+import type { ValidationKey } from "./validate";
+
+export interface RedactConfigs {
+  /**
+   * Dot-separated paths redacted per part, `*` matching any key or index,
+   * e.g. `{ body: ["password", "cards.*.number"] }`
+   */
+  paths?: Partial<Record<ValidationKey, string[]>>;
+  /** Replacement of redacted values (default: `"[REDACTED]"`) */
+  censor?: string;
+}
+
+type Path = PropertyKey[];
+
+/** Redacted even without configs, unless `redact` is `false` */
+export const defaultRedactPaths: Partial<Record<ValidationKey, string[]>> = {
+  headers: ["authorization", "cookie"],
+};
+
+const defaultCensor = "[REDACTED]";
+
+const isSensitive = (schema: ZodType) =>
+  z.globalRegistry.get(schema)?.sensitive === true;
+
+/** Paths of the schemas marked with `.meta({ sensitive: true })` */
+export const sensitivePaths = (schema: ZodType): Path[] => {
+  const paths: Path[] = [];
+  // Schemas being visited, so that recursive schemas are walked once
+  const ancestors = new Set<ZodType>();
+
+  const visit = (current: ZodType | undefined, path: Path) => {
+    if (!current || ancestors.has(current)) return;
+    if (isSensitive(current)) {
+      paths.push(path);
+      return;
+    }
+    ancestors.add(current);
+
+    const def = current._zod.def as unknown as Record<string, unknown> & {
+      type: string;
+    };
+    switch (def.type) {
+      case "object":
+        for (const [key, property] of Object.entries(
+          def.shape as Record<string, ZodType>,
+        )) {
+          visit(property, [...path, key]);
+        }
+        break;
+      case "array":
+        visit(def.element as ZodType, [...path, "*"]);
+        break;
+      case "tuple":
+        (def.items as ZodType[]).forEach((item, index) =>
+          visit(item, [...path, index]),
+        );
+        break;
+      case "record":
+        visit(def.valueType as ZodType, [...path, "*"]);
+        break;
+      case "union":
+        (def.options as ZodType[]).forEach((option) => visit(option, path));
+        break;
+      case "intersection":
+        visit(def.left as ZodType, path);
+        visit(def.right as ZodType, path);
+        break;
+      case "pipe":
+        visit(def.in as ZodType, path);
+        visit(def.out as ZodType, path);
+        break;
+      case "lazy":
+        visit((def.getter as () => ZodType)(), path);
+        break;
+      default:
+        visit(def.innerType as ZodType | undefined, path);
+    }
+    ancestors.delete(current);
+  };
+
+  visit(schema, []);
+  return paths;
+};
+
+export const toPaths = (paths: string[] = []): Path[] =>
+  paths.map((path) => path.split("."));
+
+const matches = (pattern: PropertyKey, key: PropertyKey) =>
+  pattern === "*" || String(pattern) === String(key);
+
+/** Whether `prefix` matches the start of `path` */
+const startsWith = (path: Path, prefix: Path) =>
+  prefix.length <= path.length &&
+  prefix.every((segment, index) => matches(segment, path[index]));
+
+const getAt = (value: unknown, path: Path): unknown =>
+  path.reduce<unknown>(
+    (current, key) =>
+      typeof current === "object" && current !== null
+        ? (current as Record<PropertyKey, unknown>)[key]
+        : undefined,
+    value,
+  );
+
+/** Copies `value`, replacing the values found at `path` */
+const redactAt = (value: unknown, path: Path, censor: string): unknown => {
+  if (!path.length) return censor;
+  if (typeof value !== "object" || value === null) return value;
+
+  const [segment, ...rest] = path;
+  const copy = (Array.isArray(value) ? [...value] : { ...value }) as Record<
+    PropertyKey,
+    unknown
+  >;
+  for (const key of Object.keys(copy)) {
+    if (matches(segment, key)) copy[key] = redactAt(copy[key], rest, censor);
+  }
+  return copy;
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Message of Zod's own locale for the issue, which never repeats the input */
+const builtInMessage = (issue: z.core.$ZodIssue, raw: unknown) => {
+  const message = z.config().localeError?.({
+    ...issue,
+    input: raw,
+  } as unknown as z.core.$ZodRawIssue);
+  return typeof message === "string" ? message : message?.message;
+};
+
+/**
+ * Replaces the raw value in custom messages, where it appears as a whole
+ * token: `1` is not replaced in `>=10`, nor `e` in `expected`.
+ */
+const scrubMessage = (
+  issue: z.core.$ZodIssue,
+  raw: unknown,
+  censor: string,
+) => {
+  const { message } = issue;
+  if (
+    !(
+      (typeof raw === "string" && raw.length > 0) ||
+      typeof raw === "number" ||
+      typeof raw === "bigint"
+    ) ||
+    message === builtInMessage(issue, raw)
+  ) {
+    return message;
+  }
+
+  const token = new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegExp(String(raw))}(?![\\p{L}\\p{N}_])`,
+    "gu",
+  );
+  return message.replace(token, () => censor);
+};
+
+const redactIssue = (
+  issue: z.core.$ZodIssue,
+  base: Path,
+  input: unknown,
+  paths: Path[],
+  censor: string,
+): z.core.$ZodIssue => {
+  const path = [...base, ...issue.path];
+  const redacted: Record<string, unknown> = { ...issue };
+
+  if (paths.some((sensitive) => startsWith(path, sensitive))) {
+    if ("input" in issue) redacted.input = censor;
+    redacted.message = scrubMessage(issue, getAt(input, path), censor);
+  } else if ("input" in issue) {
+    redacted.input = paths
+      .filter((sensitive) => startsWith(sensitive, path))
+      .reduce(
+        (value, sensitive) =>
+          redactAt(value, sensitive.slice(path.length), censor),
+        issue.input,
+      );
+  }
+
+  if (issue.code === "invalid_union") {
+    redacted.errors = issue.errors.map((issues) =>
+      issues.map((nested) => redactIssue(nested, path, input, paths, censor)),
+    );
+  }
+  if (issue.code === "invalid_key" || issue.code === "invalid_element") {
+    redacted.issues = issue.issues.map((nested) =>
+      redactIssue(nested, path, input, paths, censor),
+    );
+  }
+
+  return redacted as unknown as z.core.$ZodIssue;
+};
+
+/**
+ * Returns a copy of `error` whose issues no longer carry the values found at
+ * `paths`: reported inputs are replaced by the censor, and so are the raw
+ * values repeated in custom messages. Zod's built-in messages are kept.
+ */
+export const redactError = (
+  error: ZodError,
+  input: unknown,
+  paths: Path[],
+  censor = defaultCensor,
+): ZodError => {
+  if (!paths.length) return error;
+
+  return new ZodError(
+    error.issues.map((issue) => redactIssue(issue, [], input, paths, censor)),
+  );
+};
@@ -0,0 +1,136 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodError, ZodType } from "zod";
+import type { ParseOptions, ValidationRequest } from "./validate";
+
+export type ResponseValidationMode = "strip" | "log" | "fail";
+
+export type ResponseSchemas =
+  ZodType | Partial<Record<number | "default", ZodType>>;
+
+export interface ResponseValidationConfigs {
+  /**
+   * - `strip`: send the parsed payload, dropping undeclared fields; fail with 500 when invalid
+   * - `log`: send the original payload and report the error through `onError`
+   * - `fail`: send the original payload when valid; fail with 500 when invalid
+   */
+  mode?: ResponseValidationMode;
+  onError?: (error: ZodError, req: Request, res: Response) => void;
+}
+
+/** Default `onError` of the `log` mode, the only one that sends no 500 */
+const logError = (error: ZodError, req: Request) => {
+  console.error(
+    `Response validation failed for ${req.method} ${req.originalUrl}`,
+    error.issues,
+  );
+};
+
+const isJsonType = (type: unknown) =>
+  typeof type === "string" && /[/+]json\b/i.test(type);
+
+const schemaFor = (schemas: ResponseSchemas, status: number) =>
+  schemas instanceof ZodType ? schemas : (schemas[status] ?? schemas.default);
+
+export interface ResponseValidationMiddleware {
+  (req: ValidationRequest, res: Response, next: NextFunction): void;
+  /** Schemas checked by this middleware, read by `generateOpenApi` */
+  readonly responseSchemas: ResponseSchemas;
+}
+
+export const validateResponse = (
+  schemas: ResponseSchemas,
+  configs: ResponseValidationConfigs = {},
+  options?: ParseOptions,
+): ResponseValidationMiddleware => {
+  const middleware = (
+    req: ValidationRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    const { mode = "strip" } = configs;
+    const { onError = mode === "log" ? logError : undefined } = configs;
+    const json = res.json;
+    const send = res.send;
+    let serializing = false;
+
+    const respond = <T>(write: () => T) => {
+      serializing = true;
+      try {
+        return write();
+      } finally {
+        serializing = false;
+      }
+    };
+
+    // Returns the payload to send, or `undefined` once a 500 has been sent
+    const check = (body: unknown): { body: unknown } | undefined => {
+      const schema = schemaFor(schemas, res.statusCode);
+      if (!schema) return { body };
+
+      let result;
+      try {
+        result = schema.safeParse(body, options);
+      } catch (error) {
+        // Async refinements cannot run inside the synchronous res.json
+        result = {
+          success: false as const,
+          error: new ZodError([
+            {
+              code: "custom",
+              path: [],
+              input: body,
+              message: error instanceof Error ? error.message : String(error),
+            },
+          ]),
+        };
+      }
+
+      if (result.success)
+        return { body: mode === "strip" ? result.data : body };
+
+      onError?.(result.error, req, res);
+      if (mode === "log") return { body };
+
+      res.status(500);
+      respond(() => json.call(res, { message: "Response validation failed" }));
+      return undefined;
+    };
+
+    res.json = function (body?: unknown) {
+      const checked = check(body);
+      if (!checked) return res;
+
+      return respond(() => json.call(res, checked.body));
+    };
+
+    res.send = function (body?: unknown) {
+      if (
+        serializing ||
+        typeof body !== "string" ||
+        !isJsonType(res.get("Content-Type"))
+      ) {
+        return send.call(res, body);
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        return send.call(res, body);
+      }
+
+      const checked = check(parsed);
+      if (!checked) return res;
+
+      return respond(() =>
+        checked.body === parsed
+          ? send.call(res, body)
+          : json.call(res, checked.body),
+      );
+    };
+
+    next();
+  };
+
+  return Object.assign(middleware, { responseSchemas: schemas });
+};
@@ -0,0 +1,545 @@
+import type { ZodType, z } from "zod";
+import { isSchemaFactory } from "./context";
+import { isPlainObject, unwrap, type SchemaDef } from "./introspection";
+import type { SchemaOf, ValidationKey, ValidationProps } from "./validate";
+
+interface SchemaBag {
+  format?: string;
+  patterns?: Set<RegExp>;
+  minimum?: number | bigint | Date;
+  maximum?: number | bigint | Date;
+  exclusiveMinimum?: number | bigint;
+  exclusiveMaximum?: number | bigint;
+  multipleOf?: number | bigint;
+  length?: number;
+  mime?: string[];
+}
+
+interface SchemaInternals {
+  def: SchemaDef;
+  bag: SchemaBag;
+  optin?: "optional";
+  values?: Set<unknown>;
+}
+
+export interface SampleOptions {
+  /** Seed of the pseudo-random choices: the same seed gives the same sample */
+  seed?: number;
+}
+
+export interface InvalidSample {
+  /** Path of the invalid value, from the root of the input */
+  path: PropertyKey[];
+  reason: "type" | "missing" | "constraint" | "unknown_key";
+  input: unknown;
+}
+
+export type RequestSample<P extends ValidationProps = ValidationProps> = {
+  [K in keyof P & ValidationKey]: SchemaOf<P[K]> extends ZodType
+    ? z.input<SchemaOf<P[K]>>
+    : never;
+};
+
+export interface InvalidRequestSample extends InvalidSample {
+  part: ValidationKey;
+}
+
+const internals = (schema: ZodType) =>
+  (schema as unknown as { _zod: SchemaInternals })._zod;
+
+/** Mulberry32, small and good enough for sample data */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    chance: (probability: number) => next() < probability,
+    integer: (min: number, max: number) =>
+      min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(values: readonly T[]) =>
+      values[Math.floor(next() * values.length)],
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Depth after which optional values are left out and arrays kept minimal */
+const maxDepth = 4;
+
+const hex = (random: Random, length: number) =>
+  Array.from({ length }, () => random.integer(0, 15).toString(16)).join("");
+
+const formats: Record<string, (random: Random) => string> = {
+  email: (random) => `user${random.integer(1, 999)}@example.com`,
+  uuid: (random) =>
+    `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-a${hex(random, 3)}-${hex(random, 12)}`,
+  guid: (random) => formats.uuid(random),
+  url: (random) => `https://example.com/${random.integer(1, 999)}`,
+  datetime: (random) =>
+    new Date(Date.UTC(2024, 0, random.integer(1, 365))).toISOString(),
+  date: (random) =>
+    new Date(Date.UTC(2024, 0, random.integer(1, 365)))
+      .toISOString()
+      .slice(0, 10),
+  time: (random) =>
+    `${String(random.integer(0, 23)).padStart(2, "0")}:${String(random.integer(0, 59)).padStart(2, "0")}:00`,
+  duration: (random) => `P${random.integer(1, 30)}D`,
+  ipv4: (random) => `192.0.2.${random.integer(1, 254)}`,
+  ipv6: (random) => `2001:db8::${hex(random, 4)}`,
+  cidrv4: (random) => `192.0.2.0/${random.integer(24, 32)}`,
+  cidrv6: () => "2001:db8::/32",
+  base64: () => "c2FtcGxl",
+  base64url: () => "c2FtcGxl",
+  e164: (random) =>
+    `+1555010${String(random.integer(0, 9999)).padStart(4, "0")}`,
+  cuid: (random) => `c${hex(random, 24)}`,
+  cuid2: (random) => `a${hex(random, 23)}`,
+  ulid: (random) =>
+    `01${Array.from({ length: 24 }, () => random.pick([..."0123456789ABCDEFGHJKMNPQRSTVWXYZ"])).join("")}`,
+  nanoid: (random) =>
+    Array.from({ length: 21 }, () => random.pick([..."abcdefghij_-"])).join(""),
+  lowercase: (random) => hex(random, 6).replace(/\d/g, "a"),
+  uppercase: (random) => hex(random, 6).replace(/\d/g, "A").toUpperCase(),
+};
+
+/** Literal prefix, suffix and infix of `startsWith`, `endsWith` and `includes` */
+const affixes = (patterns: Set<RegExp> = new Set()) => {
+  let prefix = "";
+  let suffix = "";
+  let infix = "";
+
+  const unescape = (value: string) => value.replace(/\\(.)/g, "$1");
+  for (const { source } of patterns) {
+    const starts = source.match(/^\^((?:\\.|[^.*+?^$()[\]{}|\\])*)\.\*$/);
+    const ends = source.match(/^\.\*((?:\\.|[^.*+?^$()[\]{}|\\])*)\$$/);
+    if (starts) prefix = unescape(starts[1]);
+    else if (ends) suffix = unescape(ends[1]);
+    else if (/^(?:\\.|[^.*+?^$()[\]{}|\\])+$/.test(source)) {
+      infix = unescape(source);
+    }
+  }
+
+  return { prefix, infix, suffix };
+};
+
+const sampleString = (bag: SchemaBag, random: Random) => {
+  const format = bag.format && formats[bag.format];
+  if (format) return format(random);
+
+  const { prefix, infix, suffix } = affixes(bag.patterns);
+  const fixed = prefix.length + infix.length + suffix.length;
+  const min = Math.max(Number(bag.minimum ?? 1), fixed);
+  const max = Number(bag.maximum ?? Math.max(min, fixed) + 8);
+  const length = random.integer(min, Math.max(min, Math.min(max, min + 8)));
+  const filler = Array.from({ length: length - fixed }, () =>
+    random.pick([..."abcdefghijklmnopqrstuvwxyz"]),
+  ).join("");
+
+  return `${prefix}${filler.slice(0, filler.length >> 1)}${infix}${filler.slice(filler.length >> 1)}${suffix}`;
+};
+
+const sampleNumber = (bag: SchemaBag, random: Random) => {
+  const integer = /int/.test(bag.format ?? "");
+  const step = Number(bag.multipleOf ?? (integer ? 1 : 0.5));
+  const lower = Math.max(
+    Number(bag.minimum ?? -Infinity),
+    Number(bag.exclusiveMinimum ?? -Infinity) + step,
+  );
+  const upper = Math.min(
+    Number(bag.maximum ?? Infinity),
+    Number(bag.exclusiveMaximum ?? Infinity) - step,
+  );
+  const min = Number.isFinite(lower)
+    ? lower
+    : Number.isFinite(upper)
+      ? upper - 100
+      : 0;
+  const max = Number.isFinite(upper) ? Math.min(upper, min + 100) : min + 100;
+
+  const value = min + random.integer(0, Math.floor((max - min) / step)) * step;
+  return Math.ceil(value / step) * step;
+};
+
+const sampleBigInt = (bag: SchemaBag, random: Random) => {
+  const min =
+    bag.minimum !== undefined
+      ? BigInt(bag.minimum as bigint)
+      : BigInt(bag.exclusiveMinimum ?? -1) + BigInt(1);
+  return min + BigInt(random.integer(0, 100));
+};
+
+const sampleDate = (bag: SchemaBag, random: Random) => {
+  const min = bag.minimum instanceof Date ? bag.minimum.getTime() : undefined;
+  const max = bag.maximum instanceof Date ? bag.maximum.getTime() : undefined;
+  const start = min ?? (max !== undefined ? max - 864e8 : Date.UTC(2024, 0, 1));
+  const end = max ?? start + 864e8;
+  return new Date(
+    start + random.integer(0, Math.floor((end - start) / 1000)) * 1000,
+  );
+};
+
+const sampleLength = (bag: SchemaBag, random: Random, depth: number) => {
+  const min = Number(bag.length ?? bag.minimum ?? 0);
+  const max = Number(bag.length ?? bag.maximum ?? min + 3);
+  return depth >= maxDepth ? min : random.integer(min, Math.max(min, max));
+};
+
+const sample = (schema: ZodType, random: Random, depth: number): unknown => {
+  const { def, bag, values } = internals(schema);
+  const next = (inner: ZodType) => sample(inner, random, depth + 1);
+
+  switch (def.type) {
+    case "optional":
+      return depth >= maxDepth || random.chance(0.25)
+        ? undefined
+        : sample(def.innerType!, random, depth);
+    case "nullable":
+      return random.chance(0.2) ? null : sample(def.innerType!, random, depth);
+    case "default":
+    case "prefault":
+      return random.chance(0.25)
+        ? undefined
+        : sample(def.innerType!, random, depth);
+    case "catch":
+    case "readonly":
+    case "nonoptional":
+      return sample(def.innerType!, random, depth);
+    case "pipe":
+      return sample(def.in!, random, depth);
+    case "lazy":
+      return sample(def.getter!(), random, depth);
+    case "string":
+      return sampleString(bag, random);
+    case "number":
+      return sampleNumber(bag, random);
+    case "bigint":
+      return sampleBigInt(bag, random);
+    case "boolean":
+      return random.chance(0.5);
+    case "date":
+      return sampleDate(bag, random);
+    case "null":
+      return null;
+    case "undefined":
+    case "void":
+      return undefined;
+    case "nan":
+      return NaN;
+    case "any":
+    case "unknown":
+      return "sample";
+    case "enum":
+    case "literal":
+      return random.pick([...(values ?? [])]);
+    case "template_literal":
+      return (def.parts ?? [])
+        .map((part) =>
+          typeof part === "object" && part !== null
+            ? String(next(part as ZodType))
+            : String(part ?? ""),
+        )
+        .join("");
+    case "object": {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(def.shape ?? {})) {
+        const value = next(property);
+        if (value !== undefined || internals(property).optin !== "optional") {
+          result[key] = value;
+        }
+      }
+      return result;
+    }
+    case "array":
+      return Array.from({ length: sampleLength(bag, random, depth) }, () =>
+        next(def.element!),
+      );
+    case "tuple":
+      return [
+        ...(def.items ?? []).map(next),
+        ...(def.rest && depth < maxDepth ? [next(def.rest)] : []),
+      ];
+    case "record": {
+      const keys = internals(def.keyType!).values;
+      const recordKeys = keys
+        ? [...keys]
+        : Array.from(
+            { length: depth >= maxDepth ? 0 : random.integer(1, 2) },
+            () => next(def.keyType!),
+          );
+      return Object.fromEntries(
+        recordKeys.map((key) => [key, next(def.valueType!)]),
+      );
+    }
+    case "map":
+      return new Map(
+        Array.from({ length: sampleLength(bag, random, depth) }, () => [
+          next(def.keyType!),
+          next(def.valueType!),
+        ]),
+      );
+    case "set":
+      return new Set(
+        Array.from({ length: sampleLength(bag, random, depth) }, () =>
+          next(def.valueType!),
+        ),
+      );
+    case "union":
+      return sample(random.pick(def.options ?? []), random, depth);
+    case "intersection": {
+      const left = sample(def.left!, random, depth);
+      const right = sample(def.right!, random, depth);
+      return isPlainObject(left) && isPlainObject(right)
+        ? { ...left, ...right }
+        : left;
+    }
+    case "file": {
+      const size = Number(bag.minimum ?? 6);
+      return new File(["x".repeat(size)], "sample.txt", {
+        type: bag.mime?.[0] ?? "text/plain",
+      });
+    }
+    default:
+      return undefined;
+  }
+};
+
+/** Tells whether `input` passes `schema`; async schemas are not checked */
+const accepts = (schema: ZodType, input: unknown) => {
+  try {
+    return schema.safeParse(input).success;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Generates an input accepted by `schema`, from its types and checks (lengths,
+ * bounds, formats, `startsWith`, ...). Custom refinements and regexes are not
+ * understood: a few seeds are tried before giving up with an error.
+ */
+export const generateValidInput = <T extends ZodType>(
+  schema: T,
+  options: SampleOptions = {},
+): z.input<T> => {
+  const { seed = 1 } = options;
+  let input: unknown;
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    input = sample(schema, createRandom(seed + attempt * 7919), 0);
+    if (accepts(schema, input)) return input as z.input<T>;
+  }
+
+  const issues = schema.safeParse(input).error?.issues ?? [];
+  throw new Error(
+    `Could not generate a valid input: ${issues.map((issue) => issue.message).join(", ")}`,
+  );
+};
+
+/** Copies `root` along `path` only, replacing or removing the value at its end */
+const setAt = (
+  root: unknown,
+  path: PropertyKey[],
+  update: { value: unknown } | "remove",
+): unknown => {
+  if (!path.length) return update === "remove" ? undefined : update.value;
+
+  const [key, ...rest] = path;
+  const copy = (
+    Array.isArray(root) ? [...root] : { ...(root as object) }
+  ) as Record<PropertyKey, unknown>;
+
+  if (!rest.length && update === "remove") delete copy[key];
+  else copy[key] = setAt(copy[key], rest, update);
+  return copy;
+};
+
+/** Replacement values of another type than `type` */
+const wrongType = (type: string): unknown =>
+  type === "string" || type === "enum" || type === "template_literal"
+    ? 42
+    : `not-a-${type}`;
+
+const constraintViolations = (schema: ZodType, value: unknown): unknown[] => {
+  const { def, bag } = internals(schema);
+  const minimum = Number(bag.length ?? bag.minimum);
+  const maximum = Number(bag.length ?? bag.maximum);
+
+  switch (def.type) {
+    case "string":
+      return [
+        ...(bag.format || bag.patterns?.size ? ["@invalid-format@"] : []),
+        ...(minimum > 0 ? ["x".repeat(minimum - 1)] : []),
+        ...(Number.isFinite(maximum) ? ["x".repeat(maximum + 1)] : []),
+      ];
+    case "number":
+      return [
+        ...(/int/.test(bag.format ?? "") ? [Number(value) + 0.5] : []),
+        ...(bag.minimum !== undefined ? [Number(bag.minimum) - 1] : []),
+        ...(bag.exclusiveMinimum !== undefined
+          ? [Number(bag.exclusiveMinimum)]
+          : []),
+        ...(bag.maximum !== undefined ? [Number(bag.maximum) + 1] : []),
+        ...(bag.exclusiveMaximum !== undefined
+          ? [Number(bag.exclusiveMaximum)]
+          : []),
+        ...(bag.multipleOf !== undefined
+          ? [Number(value) + Number(bag.multipleOf) / 2]
+          : []),
+      ];
+    case "enum":
+    case "literal":
+      return ["@invalid-value@"];
+    case "array":
+      return Array.isArray(value)
+        ? [
+            ...(minimum > 0 ? [value.slice(0, minimum - 1)] : []),
+            ...(Number.isFinite(maximum)
+              ? [
+                  [
+                    ...value,
+                    ...Array(maximum + 1 - value.length).fill(value[0]),
+                  ],
+                ]
+              : []),
+          ]
+        : [];
+    default:
+      return [];
+  }
+};
+
+interface Mutation {
+  path: PropertyKey[];
+  reason: InvalidSample["reason"];
+  update: { value: unknown } | "remove";
+}
+
+const mutations = (
+  schema: ZodType,
+  value: unknown,
+  path: PropertyKey[],
+  depth: number,
+): Mutation[] => {
+  const unwrapped = unwrap(schema);
+  const { def } = internals(unwrapped);
+  const result: Mutation[] = [];
+
+  if (!["any", "unknown", "union", "intersection"].includes(def.type)) {
+    result.push({
+      path,
+      reason: "type",
+      update: { value: wrongType(def.type) },
+    });
+  }
+  for (const violation of constraintViolations(unwrapped, value)) {
+    result.push({ path, reason: "constraint", update: { value: violation } });
+  }
+  if (depth >= maxDepth) return result;
+
+  if (def.type === "object" && isPlainObject(value)) {
+    for (const [key, property] of Object.entries(def.shape ?? {})) {
+      if (internals(property).optin !== "optional") {
+        result.push({
+          path: [...path, key],
+          reason: "missing",
+          update: "remove",
+        });
+      }
+      if (key in value) {
+        result.push(
+          ...mutations(property, value[key], [...path, key], depth + 1),
+        );
+      }
+    }
+    if (def.catchall && internals(def.catchall).def.type === "never") {
+      result.push({
+        path: [...path, "__unexpected__"],
+        reason: "unknown_key",
+        update: { value: true },
+      });
+    }
+  }
+
+  if (def.type === "array" && Array.isArray(value) && value.length) {
+    result.push(...mutations(def.element!, value[0], [...path, 0], depth + 1));
+  }
+
+  if (def.type === "tuple" && Array.isArray(value)) {
+    (def.items ?? []).forEach((item, index) => {
+      result.push(
+        ...mutations(item, value[index], [...path, index], depth + 1),
+      );
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Generates inputs rejected by `schema`, each breaking a single rule of a
+ * valid input: a wrong type, a missing required property, a violated check or
+ * an unknown key of a strict object. Mutations the schema still accepts, e.g.
+ * through coercion, are left out.
+ */
+export const generateInvalidInputs = <T extends ZodType>(
+  schema: T,
+  options: SampleOptions = {},
+): InvalidSample[] => {
+  const valid = generateValidInput(schema, options);
+  const seen = new Set<string>();
+
+  return mutations(schema, valid, [], 0).flatMap(({ path, reason, update }) => {
+    const input = setAt(valid, path, update);
+    const key = `${path.map(String).join(".")}:${reason}:${update === "remove" ? "" : String(update.value)}`;
+    if (seen.has(key) || accepts(schema, input)) return [];
+
+    seen.add(key);
+    return [{ path, reason, input }];
+  });
+};
+
+/** Static schemas of the parts, factories needing a request to be built */
+const schemaEntries = ({ refine, ...schemas }: ValidationProps) =>
+  (
+    Object.entries(schemas) as [ValidationKey, ValidationProps[ValidationKey]][]
+  ).filter(
+    (entry): entry is [ValidationKey, ZodType] =>
+      !!entry[1] && !isSchemaFactory(entry[1]),
+  );
+
+/** Generates a valid input for every part of a set of schemas */
+export const generateValidRequest = <P extends ValidationProps>(
+  props: P,
+  options: SampleOptions = {},
+): RequestSample<P> =>
+  Object.fromEntries(
+    schemaEntries(props).map(([key, schema]) => [
+      key,
+      generateValidInput(schema, options),
+    ]),
+  ) as RequestSample<P>;
+
+/**
+ * Generates requests with a single invalid part, the other parts being valid,
+ * e.g. to check that a route rejects each of them.
+ */
+export const generateInvalidRequests = <P extends ValidationProps>(
+  props: P,
+  options: SampleOptions = {},
+): (InvalidRequestSample & { request: RequestSample<P> })[] => {
+  const valid = generateValidRequest(props, options);
+
+  return schemaEntries(props).flatMap(([part, schema]) =>
+    generateInvalidInputs(schema, options).map((sample) => ({
+      ...sample,
+      part,
+      request: { ...valid, [part]: sample.input },
+    })),
+  );
+};
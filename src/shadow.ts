@@ -0,0 +1,161 @@
+import type { Request } from "express";
+import { isDeepStrictEqual } from "node:util";
+import type { z } from "zod";
+import { routeOf } from "./hooks";
+import type {
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationKey,
+  ValidationOptions,
+  ValidationProps,
+  ValidationRequest,
+} from "./validate";
+
+export interface ShadowDisagreement {
+  part: ValidationKey;
+  /**
+   * - `rejected`: only the compared schemas reject the part
+   * - `accepted`: only the compared schemas accept the part
+   * - `output`: both accept the part, with different parsed values
+   */
+  kind: "rejected" | "accepted" | "output";
+  /** Issues of the schemas rejecting the part */
+  issues: z.core.$ZodIssue[];
+}
+
+export interface ShadowReport {
+  req: Request;
+  method: string;
+  /** Route path, including the mount path of its router */
+  route: string;
+  /** `report` for report-only validation, `compare` when comparing schemas */
+  mode: "report" | "compare";
+  /** Errors of the parts rejected by the schemas run in report-only mode */
+  errors: ValidationErrors;
+  /** Parts on which the route and compared schemas disagree */
+  disagreements: ShadowDisagreement[];
+}
+
+export interface ShadowConfigs {
+  /**
+   * Receives a report for every sampled request that fails validation, or,
+   * with `compare`, on which the schemas disagree. Its errors are ignored.
+   */
+  sink: (report: ShadowReport) => void | Promise<void>;
+  /** Share of the requests validated in report-only mode (default: `1`) */
+  sampleRate?: number;
+  /**
+   * Schemas compared with the route ones: the route schemas are still
+   * enforced, and these run in report-only mode. Without it, the route
+   * schemas run in report-only mode.
+   */
+  compare?: ValidationProps;
+}
+
+export const isSampled = ({ sampleRate = 1 }: ShadowConfigs) =>
+  sampleRate >= 1 || Math.random() < sampleRate;
+
+const isolatedConfigs: ValidationConfigs = {
+  throwErrors: false,
+  errorMode: "all",
+  overwriteRequest: false,
+  onSuccess: undefined,
+  onFailure: undefined,
+  onComplete: undefined,
+  shadow: undefined,
+};
+
+/**
+ * Options of the report-only runs: every part is validated, nothing is
+ * thrown and the request is not overwritten. Hooks are not called.
+ */
+export const shadowOptions = (
+  options?: ValidationOptions,
+): ValidationOptions => ({ ...options, ...isolatedConfigs });
+
+/**
+ * Copy of a request on which report-only runs store their outcome. Parts are
+ * read from the request, which is left untouched, unless copied in `parts`.
+ */
+export const shadowRequest = (
+  req: ValidationRequest,
+  parts: Partial<Record<ValidationKey, unknown>> = {},
+): ValidationRequest =>
+  Object.create(req, {
+    ...Object.fromEntries(
+      Object.entries(parts).map(([key, value]) => [key, { value }]),
+    ),
+    validationConfigs: {
+      value: { ...req.validationConfigs, ...isolatedConfigs },
+      writable: true,
+    },
+    validationErrors: { value: {}, writable: true },
+    validationValues: { value: {}, writable: true },
+  });
+
+/** Errors and values stored by a run */
+type RunOutcome = Pick<
+  ValidationRequest,
+  "validationErrors" | "validationValues"
+>;
+
+/** Parts accepted by one run and rejected by the other, or parsed differently */
+export const compareRuns = (
+  current: RunOutcome,
+  compared: RunOutcome,
+  keys: ValidationKey[],
+): ShadowDisagreement[] =>
+  keys.flatMap((part): ShadowDisagreement[] => {
+    // Parts validated by one of the runs only are accepted by the other
+    const currentError = current.validationErrors![part];
+    const comparedError = compared.validationErrors![part];
+
+    if (!currentError && comparedError) {
+      return [{ part, kind: "rejected", issues: comparedError.issues }];
+    }
+    if (currentError && !comparedError) {
+      return [{ part, kind: "accepted", issues: currentError.issues }];
+    }
+    if (
+      !currentError &&
+      part in current.validationValues! &&
+      part in compared.validationValues! &&
+      !isDeepStrictEqual(
+        current.validationValues![part],
+        compared.validationValues![part],
+      )
+    ) {
+      return [{ part, kind: "output", issues: [] }];
+    }
+    return [];
+  });
+
+/**
+ * Sends a report to the sink, for failures in report-only mode and for
+ * disagreements when comparing schemas
+ */
+export const sendReport = (
+  { sink }: ShadowConfigs,
+  req: ValidationRequest,
+  mode: ShadowReport["mode"],
+  errors: ValidationErrors,
+  disagreements: ShadowDisagreement[] = [],
+) => {
+  const reported =
+    mode === "report" ? Object.keys(errors).length : disagreements.length;
+  if (!reported) return;
+
+  try {
+    const sent = sink({
+      req,
+      method: req.method,
+      route: routeOf(req),
+      mode,
+      errors,
+      disagreements,
+    });
+    if (sent instanceof Promise) sent.catch(() => undefined);
+  } catch {
+    // The sink never changes the response
+  }
+};
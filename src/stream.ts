@@ -0,0 +1,400 @@
+import type { NextFunction, Response } from "express";
+import { z, ZodError, type ZodType } from "zod";
+import { compileSchema, parseSchema } from "./async";
+import { mergeConfigs } from "./core";
+import { ValidationError } from "./errors";
+import { checkGuards } from "./guards";
+import { redactError, sensitivePaths, toPaths } from "./redact";
+import type {
+  ValidationOptions,
+  ValidationRequest,
+  ValidationMiddleware,
+} from "./validate";
+
+export type StreamFormat = "ndjson" | "json";
+
+export interface StreamValidationConfigs {
+  /**
+   * `"ndjson"` for one JSON value per line, `"json"` for a top-level array.
+   * Defaults to `"ndjson"` for `application/x-ndjson` and
+   * `application/jsonl` bodies, `"json"` otherwise.
+   */
+  format?: StreamFormat;
+  /**
+   * - `collect`: validate every item before the handler, like `validateBody`
+   * - `iterate`: call the handler at once, items being validated as it reads
+   *   `req.validationStream`
+   */
+  mode?: "collect" | "iterate";
+  /** Invalid items after which validation stops (default: `100`) */
+  maxErrors?: number;
+  /**
+   * Size of the largest item, or NDJSON line, read from the body (default:
+   * `1048576`, 1 MiB). Larger items stop the validation with a 413 issue, as
+   * the stream is read without the limit of `express.json()`.
+   */
+  maxItemBytes?: number;
+}
+
+export type StreamValidationOptions = ValidationOptions &
+  StreamValidationConfigs;
+
+/** Valid items of a streamed body, with the errors of the invalid ones */
+export interface ValidationStream<T = unknown> extends AsyncIterable<T> {
+  /** Issues of the invalid items so far, their paths starting with the index */
+  readonly issues: z.core.$ZodIssue[];
+  /** Number of items read so far */
+  readonly count: number;
+}
+
+export interface StreamRequest<T = unknown> extends ValidationRequest {
+  /** Set by `validateStream` in `iterate` mode */
+  validationStream?: ValidationStream<T>;
+}
+
+type StreamItem = { value: unknown } | { message: string };
+
+/** Error ending the reading of the body */
+type StreamEnd = { body: string; params?: Record<string, unknown> };
+
+const ndjsonTypes = ["application/x-ndjson", "application/jsonl"];
+
+const parseItem = (text: string): StreamItem => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return { message: "Invalid JSON" };
+  }
+};
+
+const tooLarge = (maxItemBytes: number): StreamEnd => ({
+  body: `Item larger than ${maxItemBytes} bytes`,
+  params: { limit: maxItemBytes, status: 413 },
+});
+
+/** Items of a body with one JSON value per line, blank lines being skipped */
+async function* readNdjson(
+  chunks: AsyncIterable<string>,
+  maxItemBytes: number,
+): AsyncGenerator<StreamItem | StreamEnd> {
+  let pending = "";
+
+  for await (const chunk of chunks) {
+    const lines = (pending + chunk).split("\n");
+    pending = lines.pop()!;
+    for (const line of lines) {
+      if (Buffer.byteLength(line) > maxItemBytes) {
+        yield tooLarge(maxItemBytes);
+        return;
+      }
+      if (line.trim()) yield parseItem(line);
+    }
+    // A line that never ends is not buffered beyond the limit
+    if (Buffer.byteLength(pending) > maxItemBytes) {
+      yield tooLarge(maxItemBytes);
+      return;
+    }
+  }
+  if (pending.trim()) yield parseItem(pending);
+}
+
+/**
+ * Items of a top-level JSON array. Only the item being read is buffered: the
+ * array is split on the commas found outside strings, objects and arrays.
+ * Trailing commas and data after the array are rejected.
+ */
+async function* readJsonArray(
+  chunks: AsyncIterable<string>,
+  maxItemBytes: number,
+): AsyncGenerator<StreamItem | StreamEnd> {
+  let started = false;
+  let ended = false;
+  // Whether the array has a comma, so that `[1,]` has an empty last item
+  let separated = false;
+  let pending = "";
+  let pendingBytes = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of chunks) {
+    let start = 0;
+
+    for (let index = 0; index < chunk.length && !ended; index++) {
+      const char = chunk[index];
+
+      if (!started) {
+        if (/\s/.test(char)) continue;
+        if (char !== "[") {
+          yield { body: "Expected a JSON array" };
+          return;
+        }
+        started = true;
+        start = index + 1;
+      } else if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && depth > 0) {
+        depth--;
+      } else if (depth === 0 && (char === "," || char === "]")) {
+        const text = pending + chunk.slice(start, index);
+        pending = "";
+        pendingBytes = 0;
+        start = index + 1;
+
+        if (Buffer.byteLength(text) > maxItemBytes) {
+          yield tooLarge(maxItemBytes);
+          return;
+        }
+        if (text.trim() || char === "," || separated) yield parseItem(text);
+        if (char === ",") separated = true;
+        else ended = true;
+      }
+    }
+
+    if (ended) {
+      // Only whitespace may follow the array
+      if (chunk.slice(start).trim()) {
+        yield { body: "Unexpected data after JSON array" };
+        return;
+      }
+    } else if (started) {
+      const rest = chunk.slice(start);
+      pending += rest;
+      pendingBytes += Buffer.byteLength(rest);
+      if (pendingBytes > maxItemBytes) {
+        yield tooLarge(maxItemBytes);
+        return;
+      }
+    }
+  }
+
+  if (!ended) yield { body: "Unexpected end of JSON array" };
+}
+
+async function* decode(req: ValidationRequest) {
+  const decoder = new TextDecoder();
+  // The request is not destroyed when reading stops early, so that a
+  // response can still be sent
+  for await (const chunk of req.iterator({ destroyOnReturn: false })) {
+    yield typeof chunk === "string"
+      ? chunk
+      : decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/** Items of a body already parsed, e.g. by `express.json()` */
+async function* fromBody(
+  body: unknown,
+): AsyncGenerator<StreamItem | StreamEnd> {
+  if (!Array.isArray(body)) {
+    yield { body: "Expected a JSON array" };
+    return;
+  }
+  for (const value of body) yield { value };
+}
+
+const formatOf = (req: ValidationRequest): StreamFormat => {
+  const type = req.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+  return type && ndjsonTypes.includes(type) ? "ndjson" : "json";
+};
+
+/**
+ * Validates a JSON array or NDJSON body item by item as it is received,
+ * without buffering it in `req.body`. Issues are reported under the index of
+ * their item, e.g. `[3, "email"]`, and validation stops once more than
+ * `maxErrors` items are invalid.
+ *
+ * In `collect` mode, valid bodies are stored as an array in
+ * `req.validationValues.body`, and errors in `req.validationErrors.body`. In
+ * `iterate` mode, the handler reads the valid items from
+ * `req.validationStream`, which throws a `ValidationError` once too many items
+ * are invalid.
+ */
+export const validateStream = <T extends ZodType>(
+  schema: T,
+  options: StreamValidationOptions = {},
+): ValidationMiddleware<{ body: z.ZodArray<T> }> => {
+  const {
+    format,
+    mode = "collect",
+    maxErrors = 100,
+    maxItemBytes = 1024 * 1024,
+    error,
+    reportInput,
+    jitless,
+    ...configs
+  } = options;
+  const routeConfigs = mergeConfigs(configs);
+  const compiled = compileSchema(schema);
+  const sensitive = sensitivePaths(schema);
+
+  const parseOptions =
+    error || reportInput || jitless
+      ? { error, reportInput, jitless }
+      : undefined;
+
+  const createStream = (req: ValidationRequest) => {
+    const { redact, guards } = req.validationConfigs
+      ? mergeConfigs(req.validationConfigs, routeConfigs)
+      : routeConfigs;
+    const paths = [...sensitive, ...toPaths(redact ? redact.paths?.body : [])];
+
+    const issues: z.core.$ZodIssue[] = [];
+    let count = 0;
+    let failed = 0;
+
+    const fail = (index: number, errorIssues: z.core.$ZodIssue[]) => {
+      failed++;
+      issues.push(
+        ...errorIssues.map((issue) => ({
+          ...issue,
+          path: [index, ...issue.path],
+        })),
+      );
+    };
+
+    const streamed = req.body === undefined;
+    const source = !streamed
+      ? fromBody(req.body)
+      : (format ?? formatOf(req)) === "ndjson"
+        ? readNdjson(decode(req), maxItemBytes)
+        : readJsonArray(decode(req), maxItemBytes);
+
+    async function* read() {
+      for await (const item of source) {
+        if ("body" in item) {
+          failed++;
+          issues.push({
+            code: "custom",
+            path: [],
+            message: item.body,
+            input: undefined,
+            ...(item.params && { params: item.params }),
+          });
+          break;
+        }
+
+        const index = count++;
+        if ("message" in item) {
+          fail(index, [
+            {
+              code: "custom",
+              path: [],
+              message: item.message,
+              input: undefined,
+            },
+          ]);
+        } else {
+          // Items breaking a guard are rejected without being parsed
+          const violation = guards && checkGuards(item.value, guards);
+          const parsed = violation
+            ? { success: false as const, error: new ZodError([violation]) }
+            : parseSchema(compiled, item.value, parseOptions);
+          const result = parsed instanceof Promise ? await parsed : parsed;
+
+          if (result.success) {
+            yield result.data as z.output<T>;
+          } else {
+            const scrubbed =
+              redact === false
+                ? result.error
+                : redactError(result.error, item.value, paths, redact?.censor);
+            fail(index, scrubbed.issues);
+          }
+        }
+
+        if (failed > maxErrors) {
+          issues.push({
+            code: "custom",
+            path: [],
+            message: `Too many invalid items, validation stopped after ${count}`,
+            input: undefined,
+            params: { maxErrors },
+          });
+          break;
+        }
+      }
+    }
+
+    async function* items() {
+      try {
+        yield* read();
+      } finally {
+        // Unread data is discarded, so that the connection can be reused
+        if (streamed) req.resume();
+      }
+    }
+
+    return {
+      stream: items(),
+      issues,
+      get count() {
+        return count;
+      },
+      get failed() {
+        return failed;
+      },
+    };
+  };
+
+  const middleware = async (
+    req: StreamRequest,
+    _: Response,
+    next: NextFunction,
+  ) => {
+    try {
+      const validationErrors = (req.validationErrors ??= {});
+      const validationValues = (req.validationValues ??= {});
+      const { throwErrors = false } = req.validationConfigs
+        ? mergeConfigs(req.validationConfigs, routeConfigs)
+        : routeConfigs;
+      const state = createStream(req);
+
+      const store = () => {
+        if (state.failed) {
+          validationErrors.body = new ZodError(state.issues);
+          delete validationValues.body;
+        }
+        return state.failed
+          ? new ValidationError({ body: validationErrors.body! })
+          : undefined;
+      };
+
+      if (mode === "iterate") {
+        req.validationStream = {
+          issues: state.issues,
+          get count() {
+            return state.count;
+          },
+          async *[Symbol.asyncIterator]() {
+            yield* state.stream;
+            const error = store();
+            if (error && state.failed > maxErrors) throw error;
+          },
+        };
+        return next();
+      }
+
+      const values: unknown[] = [];
+      for await (const item of state.stream) values.push(item);
+
+      const error = store();
+      if (!error) {
+        delete validationErrors.body;
+        validationValues.body = values;
+      }
+      next(error && throwErrors ? error : undefined);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return Object.assign(middleware, { schemas: { body: z.array(schema) } });
+};
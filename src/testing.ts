@@ -0,0 +1,142 @@
+import type { NextFunction, Response } from "express";
+import type {
+  InferValidationValues,
+  ValidationConfigs,
+  ValidationErrors,
+  ValidationMiddleware,
+  ValidationProps,
+  ValidationRequest,
+} from "./validate";
+
+export * from "./samples";
+
+export interface FakeRequestInit extends Partial<
+  Record<"params" | "query" | "body" | "cookies" | "signedCookies", unknown>
+> {
+  method?: string;
+  url?: string;
+  headers?: Record<string, string | string[] | undefined>;
+  /** Configs normally set by `expressZodValidations` */
+  validationConfigs?: ValidationConfigs;
+  [key: string]: unknown;
+}
+
+export interface ValidationResult<P extends ValidationProps = ValidationProps> {
+  /** `true` when no part failed and no error was forwarded */
+  success: boolean;
+  values: Partial<InferValidationValues<P>>;
+  errors: ValidationErrors;
+  /** Error forwarded to `next()`, e.g. a `ValidationError` with `throwErrors` */
+  error?: unknown;
+  request: ValidationRequest;
+}
+
+const typeAliases: Record<string, string> = {
+  json: "application/json",
+  urlencoded: "application/x-www-form-urlencoded",
+  multipart: "multipart/*",
+  text: "text/plain",
+};
+
+const normalizeType = (type: string) =>
+  typeAliases[type] ?? (type.startsWith("+") ? `*/*${type}` : type);
+
+const matchesType = (expected: string, actual: string) => {
+  const [type, subtype] = expected.split("/");
+  const [actualType, actualSubtype = ""] = actual.split("/");
+
+  return (
+    (type === "*" || type === actualType) &&
+    (subtype === "*" ||
+      subtype === actualSubtype ||
+      (subtype?.startsWith("*+") && actualSubtype.endsWith(subtype.slice(1))))
+  );
+};
+
+/**
+ * Builds a request object with the properties and methods used by the
+ * validation middlewares (`get`, `header` and `is`), without Express. Requests
+ * have a body when `body` is set.
+ */
+export const createRequest = (
+  init: FakeRequestInit = {},
+): ValidationRequest => {
+  const { headers = {}, ...properties } = init;
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+
+  if (init.body !== undefined && !lowerHeaders["content-type"]) {
+    lowerHeaders["content-type"] = "application/json";
+  }
+
+  const get = (name: string) => lowerHeaders[name.toLowerCase()];
+
+  const is = (...types: (string | string[])[]) => {
+    if (init.body === undefined) return null;
+
+    const contentType = String(get("content-type") ?? "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    if (!contentType) return false;
+
+    const list = types.flat();
+    if (!list.length) return contentType;
+
+    const matched = list.find((type) =>
+      matchesType(normalizeType(type), contentType),
+    );
+    if (!matched) return false;
+    return matched.startsWith("+") || matched.includes("*")
+      ? contentType
+      : matched;
+  };
+
+  return {
+    method: "GET",
+    url: "/",
+    originalUrl: init.url ?? "/",
+    params: {},
+    query: {},
+    ...properties,
+    headers: lowerHeaders,
+    get,
+    header: get,
+    is,
+  } as unknown as ValidationRequest;
+};
+
+/**
+ * Runs a validation middleware against a fake request and returns its
+ * validated values, errors, and the error forwarded to `next()` if any.
+ */
+export const runValidation = async <P extends ValidationProps>(
+  middleware: ValidationMiddleware<P>,
+  init: FakeRequestInit | ValidationRequest = {},
+): Promise<ValidationResult<P>> => {
+  const request =
+    typeof init.get === "function"
+      ? (init as ValidationRequest)
+      : createRequest(init as FakeRequestInit);
+
+  let error: unknown;
+  const next: NextFunction = (forwarded?: unknown) => {
+    error = forwarded;
+  };
+
+  await middleware(request, {} as Response, next);
+
+  const values = (request.validationValues ?? {}) as Partial<
+    InferValidationValues<P>
+  >;
+  const errors = request.validationErrors ?? {};
+
+  return {
+    success: !error && !Object.keys(errors).length,
+    values,
+    errors,
+    ...(error !== undefined && { error }),
+    request,
+  };
+};
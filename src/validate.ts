@@ -0,0 +1,426 @@
+import { NextFunction, Request, Response } from "express";
+import type { ZodError, ZodType, z } from "zod";
+import type {
+  ContextFactory,
+  SchemaFactory,
+  ValidationContext,
+} from "./context";
+import { createValidationRunner, mergeConfigs } from "./core";
+import { VariantError } from "./errors";
+import type { GuardConfigs } from "./guards";
+import type { ValidationHooks } from "./hooks";
+import type { LocaleConfigs } from "./locale";
+import {
+  patchSchema,
+  withTouchedPaths,
+  type DeepPartial,
+  type PatchOptions,
+} from "./patch";
+import type { RedactConfigs } from "./redact";
+import type { ShadowConfigs } from "./shadow";
+
+/**
+ * Request properties that can be validated. Properties set by earlier
+ * middlewares can be registered through declaration merging:
+ *
+ * ```ts
+ * declare module "express-zod-validations" {
+ *   interface ValidationParts {
+ *     user: true;
+ *   }
+ * }
+ * ```
+ */
+export interface ValidationParts {
+  headers: true;
+  params: true;
+  query: true;
+  body: true;
+  cookies: true;
+  signedCookies: true;
+  file: true;
+  files: true;
+}
+
+export type ValidationKey = keyof ValidationParts & string;
+
+/** Enables a behavior for every supported part, or per part */
+export type PartsOption = boolean | Partial<Record<ValidationKey, boolean>>;
+
+export interface ValidationConfigs extends LocaleConfigs, ValidationHooks {
+  throwErrors?: boolean;
+  /**
+   * With `throwErrors`, `"first"` forwards the error of the first failing
+   * part, `"all"` validates every part in parallel and forwards them together.
+   */
+  errorMode?: "first" | "all";
+  overwriteRequest?: PartsOption;
+  /**
+   * Converts strings to the numbers, booleans, dates and arrays expected by
+   * the schema before parsing. `true` enables it for query, params and headers.
+   */
+  coerce?: PartsOption;
+  /**
+   * Scrubs sensitive values from the issues of stored and thrown errors. The
+   * `authorization` and `cookie` headers, and schemas marked with
+   * `.meta({ sensitive: true })`, are always redacted unless this is `false`.
+   */
+  redact?: false | RedactConfigs;
+  /**
+   * Limits checked before parsing (depth, array length, keys, prototype keys)
+   * and while parsing (reported issues, async timeout). All are opt-in.
+   */
+  guards?: GuardConfigs;
+  /** Values added to the context returned by `validationContext()` */
+  context?: ContextFactory;
+  /**
+   * Runs the schemas in report-only mode on a sample of the requests, or
+   * compares them with other schemas, reporting to a sink. `false` opts a
+   * route out of the global one.
+   */
+  shadow?: ShadowConfigs | false;
+}
+
+export interface ValidationErrors extends Partial<
+  Record<ValidationKey, ZodError>
+> {}
+export interface ValidationValues extends Partial<
+  Record<ValidationKey, unknown>
+> {}
+
+/**
+ * Params and query default to `any`, as validation may overwrite them with
+ * parsed values
+ */
+export interface ValidationRequest<
+  Params = any,
+  ResBody = any,
+  ReqBody = any,
+  ReqQuery = any,
+> extends Request<Params, ResBody, ReqBody, ReqQuery> {
+  validationConfigs?: ValidationConfigs;
+  /** Locale of the validation messages, when `locales` are configured */
+  validationLocale?: string;
+  /** Key of the variant matched by `validateVariant` */
+  validationVariant?: string;
+  /** Context of the refinements, built once per request when first used */
+  validationContext?: ValidationContext;
+  /**
+   * Dot-separated paths of the fields set in a body validated with `patch`,
+   * e.g. `address.city`
+   */
+  validationTouched?: Set<string>;
+  validationErrors?: ValidationErrors;
+  validationValues?: ValidationValues;
+}
+
+export type ValidationProps = Partial<
+  Record<ValidationKey, ZodType | SchemaFactory>
+> & {
+  /**
+   * Schema run against the parsed parts together once they are all valid,
+   * e.g. `z.object({ params, body }).refine(...)`. Its issues are stored on
+   * the part starting their path.
+   */
+  refine?: ZodType;
+};
+
+/**
+ * Schema of a part, or the schema returned by its factory. Schemas are matched
+ * first, so that a schema intersected with `ZodType | SchemaFactory` stays a
+ * schema.
+ */
+export type SchemaOf<T> = T extends ZodType
+  ? T
+  : T extends SchemaFactory<infer S>
+    ? S
+    : T;
+export type ParseOptions = Parameters<ZodType["parse"]>[1];
+
+/** Zod parse options, plus configs overriding the router and global ones */
+export type ValidationOptions = NonNullable<ParseOptions> & ValidationConfigs;
+
+export type InferValidationValues<P extends ValidationProps> = {
+  [K in keyof P & ValidationKey]: z.output<Extract<SchemaOf<P[K]>, ZodType>>;
+};
+
+export interface ValidatedRequest<
+  P extends ValidationProps = ValidationProps,
+> extends ValidationRequest {
+  validationValues?: ValidationValues & InferValidationValues<P>;
+}
+
+/**
+ * Whether the options forward the failures and overwrite a part with its
+ * parsed value, the request then holding the output of its schema
+ */
+type Enforces<O, K extends ValidationKey> = O extends { throwErrors: true }
+  ? O extends { overwriteRequest: true | { [_ in K]: true } }
+    ? true
+    : false
+  : false;
+
+/**
+ * Output of the schema of a part when the options enforce it, or `any` when
+ * the part is not validated or may still hold the raw value
+ */
+type PartOutput<P, O, K extends ValidationKey> = K extends keyof P
+  ? SchemaOf<P[K]> extends ZodType
+    ? Enforces<O, K> extends true
+      ? z.output<SchemaOf<P[K]>>
+      : any
+    : any
+  : any;
+
+/**
+ * Express request typed with the outputs of the params, body and query
+ * schemas, carried by Express to the handlers placed after the middleware.
+ * Parts are typed only when the options, as passed to the middleware, set
+ * `throwErrors` and `overwriteRequest`. Other parts are `any`, so that the
+ * types of chained middlewares add up.
+ */
+export type ValidationHandlerRequest<
+  P extends ValidationProps,
+  O extends ValidationOptions = {},
+> = ValidationRequest<
+  PartOutput<P, O, "params">,
+  any,
+  PartOutput<P, O, "body">,
+  PartOutput<P, O, "query">
+>;
+
+export interface ValidationMiddleware<
+  P extends ValidationProps = ValidationProps,
+  O extends ValidationOptions = {},
+> {
+  (
+    req: ValidationHandlerRequest<P, O>,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void>;
+  /** Schemas validated by this middleware, read by `generateOpenApi` */
+  readonly schemas: P;
+}
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Request type seen by a handler placed after one or more validation
+ * middlewares, e.g. `ValidatedRequestOf<typeof auth | typeof body>`.
+ */
+export type ValidatedRequestOf<M extends ValidationMiddleware<any, any>> =
+  ValidatedRequest<
+    // Narrowed rather than intersected with `ValidationProps`, which would
+    // widen the factories of the parts to `SchemaFactory`
+    Extract<
+      UnionToIntersection<
+        M extends ValidationMiddleware<infer P, any> ? P : never
+      >,
+      ValidationProps
+    >
+  >;
+
+export const expressZodValidations =
+  (configs: ValidationConfigs) =>
+  (req: ValidationRequest, _: Response, next: NextFunction) => {
+    req.validationConfigs = configs;
+    next();
+  };
+
+// `O` keeps the literal options, `ValidationOptions & O` typing their callbacks
+export const validate = <
+  P extends ValidationProps,
+  O extends ValidationOptions = {},
+>(
+  props: P,
+  options?: ValidationOptions & O,
+): ValidationMiddleware<P, O> => {
+  const run = createValidationRunner(props, options);
+
+  // The error to forward, if any, is passed to `next`
+  const middleware = (
+    req: ValidationRequest,
+    _: Response,
+    next: NextFunction,
+  ) => run(req).then(next);
+
+  return Object.assign(middleware, { schemas: props });
+};
+
+/** Request attribute picking the variant of `validateVariant` */
+export type VariantSelector =
+  | { header: string }
+  | { param: string }
+  | { query: string }
+  | ((req: Request) => string | undefined);
+
+export interface VariantOptions extends ValidationOptions {
+  /** Variant used when the request does not specify one */
+  defaultVariant?: string;
+}
+
+export interface VariantMiddleware<
+  V extends Record<string, ValidationProps> = Record<string, ValidationProps>,
+> extends ValidationMiddleware<V[keyof V]> {
+  readonly variants: V;
+}
+
+const selectVariant = (req: Request, selector: VariantSelector) => {
+  const value =
+    typeof selector === "function"
+      ? selector(req)
+      : "header" in selector
+        ? req.get(selector.header)
+        : "param" in selector
+          ? req.params[selector.param]
+          : req.query[selector.query];
+
+  return typeof value === "string" && value !== "" ? value : undefined;
+};
+
+/**
+ * Validates the request against one of several sets of schemas, picked from a
+ * header, a route param, a query parameter or a function. Requests matching no
+ * variant are forwarded a `VariantError`.
+ */
+export const validateVariant = <V extends Record<string, ValidationProps>>(
+  selector: VariantSelector,
+  variants: V,
+  options: VariantOptions = {},
+): VariantMiddleware<V> => {
+  const { defaultVariant, ...validationOptions } = options;
+  const keys = Object.keys(variants);
+  const middlewares = new Map(
+    keys.map((key) => [key, validate(variants[key], validationOptions)]),
+  );
+
+  const middleware = async (
+    req: ValidationRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    const variant = selectVariant(req, selector) ?? defaultVariant;
+    const validateMatched = variant && middlewares.get(variant);
+
+    if (!validateMatched) {
+      return next(new VariantError(variant, keys));
+    }
+
+    req.validationVariant = variant;
+    return validateMatched(req, res, next);
+  };
+
+  return Object.assign(middleware, {
+    schemas: variants[defaultVariant ?? keys[0]] ?? {},
+    variants,
+  }) as VariantMiddleware<V>;
+};
+
+validate.select = validateVariant;
+
+/** `validateBody`, validating a deep-partial copy of the schema with `patch` */
+export interface BodyValidator {
+  <T extends ZodType, O extends PatchOptions>(
+    body: T,
+    options: PatchOptions & O,
+  ): ValidationMiddleware<{ body: ZodType<DeepPartial<z.output<T>>> }, O>;
+  <T extends ZodType | SchemaFactory, O extends ValidationOptions = {}>(
+    body: T,
+    options?: ValidationOptions & O,
+  ): ValidationMiddleware<{ body: T }, O>;
+}
+
+/**
+ * Creates `validate*` functions sharing default configs and parse options,
+ * e.g. for a router. Options passed to each function take precedence.
+ */
+export const createValidator = (defaults: ValidationOptions = {}) => {
+  // Only the options passed to each function type the request
+  const validateWith = <
+    P extends ValidationProps,
+    O extends ValidationOptions = {},
+  >(
+    props: P,
+    options?: ValidationOptions & O,
+  ): ValidationMiddleware<P, O> =>
+    validate(props, { ...defaults, ...mergeConfigs(options) });
+
+  return {
+    validate: validateWith,
+    validateHeaders: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      headers: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ headers }, options),
+    validateParams: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      params: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ params }, options),
+    validateQuery: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      query: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ query }, options),
+    validateBody: ((
+      body: ZodType | SchemaFactory,
+      options?: ValidationOptions & Partial<PatchOptions>,
+    ) => {
+      if (!options?.patch) return validateWith({ body }, options);
+
+      // The partial schema is derived once, when the route is declared
+      const { patch, ...rest } = options;
+      const partial = patchSchema(body as ZodType, patch === true ? {} : patch);
+      return withTouchedPaths(validateWith({ body: partial }, rest), partial);
+    }) as BodyValidator,
+    validateCookies: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      cookies: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ cookies }, options),
+    validateSignedCookies: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      signedCookies: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ signedCookies }, options),
+    validateFile: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      file: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ file }, options),
+    validateFiles: <
+      T extends ZodType | SchemaFactory,
+      O extends ValidationOptions = {},
+    >(
+      files: T,
+      options?: ValidationOptions & O,
+    ) => validateWith({ files }, options),
+  };
+};
+
+export const {
+  validateHeaders,
+  validateParams,
+  validateQuery,
+  validateBody,
+  validateCookies,
+  validateSignedCookies,
+  validateFile,
+  validateFiles,
+} = createValidator();
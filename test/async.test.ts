@@ -0,0 +1,113 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { mayBeAsync } from "../src/async";
+import { validate, validateBody, type ValidationRequest } from "../src/index";
+
+describe("sync and async parsing", () => {
+  let app: Express;
+
+  const respond = (req: ValidationRequest, res: any) => {
+    res.json({
+      values: req.validationValues?.body,
+      failed: !!req.validationErrors?.body,
+    });
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should detect schemas with callbacks", () => {
+    expect(mayBeAsync(z.object({ name: z.string().min(1) }))).toBe(false);
+    expect(
+      mayBeAsync(z.object({ name: z.string().refine(async () => true) })),
+    ).toBe(true);
+    expect(
+      mayBeAsync(z.object({ name: z.string().refine((name) => !!name) })),
+    ).toBe(true);
+    expect(
+      mayBeAsync(z.array(z.object({ id: z.string().transform((id) => id) }))),
+    ).toBe(true);
+  });
+
+  it("should not call default factories when detecting callbacks", () => {
+    const factory = vi.fn(() => "id");
+
+    const async = mayBeAsync(
+      z.object({ id: z.string().default(factory), tags: z.array(z.string()) }),
+    );
+
+    expect(async).toBe(false);
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it("should parse synchronous schemas with safeParse", async () => {
+    const schema = z.object({ name: z.string() });
+    const safeParseAsync = vi.spyOn(schema, "safeParseAsync");
+
+    app.post("/test", validateBody(schema), respond);
+
+    const response = await request(app).post("/test").send({ name: "John" });
+
+    expect(response.body.values).toEqual({ name: "John" });
+    expect(safeParseAsync).not.toHaveBeenCalled();
+  });
+
+  it("should parse async refinements", async () => {
+    const taken = new Set(["john"]);
+    const schema = z.object({
+      username: z.string().refine(async (name) => !taken.has(name)),
+    });
+
+    app.post("/test", validateBody(schema), respond);
+
+    const valid = await request(app).post("/test").send({ username: "jane" });
+    const invalid = await request(app).post("/test").send({ username: "john" });
+
+    expect(valid.body).toEqual({ values: { username: "jane" }, failed: false });
+    expect(invalid.body).toEqual({ failed: true });
+  });
+
+  it("should run promise-returning refinements once", async () => {
+    const check = vi.fn((id: string) => Promise.resolve(id.length === 3));
+    const schema = z.object({ id: z.string().refine(check) });
+
+    app.post("/test", validate({ body: schema }), respond);
+
+    const first = await request(app).post("/test").send({ id: "abc" });
+    const second = await request(app).post("/test").send({ id: "abcd" });
+
+    expect(first.body.failed).toBe(false);
+    expect(second.body.failed).toBe(true);
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it("should forward rejected refinements without unhandled rejections", async () => {
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+    const check = vi.fn(() => Promise.reject(new Error("db down")));
+
+    app.post(
+      "/test",
+      validateBody(z.object({ id: z.string().refine(check) })),
+      respond,
+    );
+    app.use(
+      (err: Error, req: express.Request, res: express.Response, next: any) => {
+        res.status(500).json({ message: err.message });
+      },
+    );
+
+    const response = await request(app).post("/test").send({ id: "abc" });
+    await new Promise((resolve) => setImmediate(resolve));
+    process.off("unhandledRejection", unhandled);
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe("db down");
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+import express, { Express } from "express";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  defineRoute,
+  generateClient,
+  mountRoute,
+  validateBody,
+  validationErrorHandler,
+} from "../src/index";
+
+const getPost = defineRoute({
+  method: "get",
+  path: "/posts/:id",
+  request: {
+    params: z.object({ id: z.coerce.number().int() }),
+    query: z.object({ fields: z.array(z.string()).optional() }),
+  },
+  responses: {
+    200: z.object({ id: z.number(), fields: z.array(z.string()) }),
+    404: z.object({ message: z.string() }),
+  },
+});
+
+describe("generateClient", () => {
+  let app: Express;
+  let server: Server | undefined;
+  let directory: string;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    directory = mkdtempSync(
+      join(fileURLToPath(new URL(".", import.meta.url)), ".client-"),
+    );
+  });
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /** Writes the generated client next to the tests and starts the app */
+  const load = async (source: string) => {
+    const file = join(directory, "client.ts");
+    writeFileSync(file, source);
+
+    server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const client = await import(file);
+    return client.createClient({ baseUrl: `http://localhost:${port}` });
+  };
+
+  it("should generate typed functions from the routes", () => {
+    mountRoute(app, getPost, ({ params }) => ({
+      status: 200,
+      body: { id: params.id, fields: [] },
+    }));
+    app.post("/posts", validateBody(z.object({ title: z.string() })), () => {});
+
+    const source = generateClient(app);
+
+    expect(source).toContain("getPostsById: (input: GetPostsByIdInput)");
+    expect(source).toContain("postPosts: (input: PostPostsInput)");
+    expect(source).toContain("id: number;");
+    expect(source).toContain("fields?: string[];");
+    expect(source).not.toContain('from "zod"');
+  });
+
+  it("should build the URL and parse the response", async () => {
+    mountRoute(app, getPost, ({ params, query }) => ({
+      status: 200,
+      body: { id: params.id, fields: query.fields ?? [] },
+    }));
+
+    const client = await load(generateClient(app));
+    const response = await client.getPostsById({
+      params: { id: 42 },
+      query: { fields: ["title", "body"] },
+    });
+
+    expect(response).toEqual({
+      status: 200,
+      body: { id: 42, fields: ["title", "body"] },
+    });
+  });
+
+  it("should send JSON bodies", async () => {
+    app.post(
+      "/posts",
+      validateBody(z.object({ title: z.string() })),
+      (req, res) => {
+        res.status(201).json(req.body);
+      },
+    );
+
+    const client = await load(generateClient(app));
+    const response = await client.postPosts({ body: { title: "Hello" } });
+
+    expect(response).toEqual({ status: 201, body: { title: "Hello" } });
+  });
+
+  it("should validate inputs before sending them", async () => {
+    let calls = 0;
+    mountRoute(app, getPost, ({ params }) => {
+      calls++;
+      return { status: 200, body: { id: params.id, fields: [] } };
+    });
+
+    const client = await load(generateClient(app, { validation: true }));
+
+    await expect(
+      client.getPostsById({ params: { id: "abc" } }),
+    ).rejects.toMatchObject({ name: "ZodError" });
+    expect(calls).toBe(0);
+  });
+
+  it("should leave refinements to the server", async () => {
+    app.post(
+      "/posts",
+      validateBody(
+        z.object({
+          title: z
+            .string()
+            .min(1)
+            .refine((title) => title !== "draft"),
+        }),
+        { throwErrors: true },
+      ),
+      (req, res) => {
+        res.status(201).json(req.body);
+      },
+    );
+    app.use(
+      (
+        _: unknown,
+        __: express.Request,
+        res: express.Response,
+        ___: unknown,
+      ) => {
+        res.status(400).json({ message: "Invalid" });
+      },
+    );
+
+    const source = generateClient(app, { validation: true });
+    const client = await load(source);
+
+    expect(source).toContain("refinements, transforms and custom checks");
+    await expect(
+      client.postPosts({ body: { title: "" } }),
+    ).rejects.toMatchObject({ name: "ZodError" });
+    await expect(
+      client.postPosts({ body: { title: "draft" } }),
+    ).resolves.toMatchObject({ status: 400 });
+  });
+
+  it("should parse responses against the response schemas", async () => {
+    app.get("/posts/:id", (req, res) => {
+      res.json({ id: "42", fields: [] });
+    });
+    mountRoute(app, getPost, ({ params }) => ({
+      status: 200,
+      body: { id: params.id, fields: [] },
+    }));
+
+    const client = await load(generateClient(app, { validation: true }));
+
+    await expect(
+      client.getPostsById({ params: { id: 42 } }),
+    ).rejects.toMatchObject({ name: "ZodError" });
+  });
+
+  it("should throw on undeclared statuses", async () => {
+    mountRoute(app, getPost, ({ params }) => ({
+      status: 200,
+      body: { id: params.id, fields: [] },
+    }));
+
+    const client = await load(generateClient(app));
+
+    await expect(
+      client.getPostsById({ params: { id: "abc" } }),
+    ).rejects.toMatchObject({ name: "ClientResponseError", status: 500 });
+  });
+});
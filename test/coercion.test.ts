@@ -0,0 +1,177 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  validate,
+  validateHeaders,
+  validateQuery,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("coercion", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should leave strings untouched by default", async () => {
+    app.get(
+      "/items",
+      validateQuery(z.object({ page: z.number() })),
+      (req: ValidationRequest, res) => {
+        res.json({ failed: !!req.validationErrors?.query });
+      },
+    );
+
+    const response = await request(app).get("/items?page=2");
+
+    expect(response.body.failed).toBe(true);
+  });
+
+  it("should coerce query strings to the schema types", async () => {
+    const schema = z.object({
+      page: z.number().int().min(1),
+      active: z.boolean(),
+      since: z.date(),
+      limit: z.number().optional().default(10),
+      size: z.literal([10, 20]),
+      sort: z.enum(["asc", "desc"]),
+    });
+
+    app.get(
+      "/items",
+      validateQuery(schema, { coerce: true }),
+      (req: ValidationRequest, res) => {
+        const query = req.validationValues?.query as z.output<typeof schema>;
+        res.json({ ...query, since: query.since.toISOString() });
+      },
+    );
+
+    const response = await request(app).get(
+      "/items?page=2&active=false&since=2024-01-01&size=20&sort=asc",
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      page: 2,
+      active: false,
+      since: "2024-01-01T00:00:00.000Z",
+      limit: 10,
+      size: 20,
+      sort: "asc",
+    });
+  });
+
+  it("should accept single or repeated values for arrays", async () => {
+    const schema = z.object({ tag: z.array(z.string()), id: z.array(z.int()) });
+
+    app.use(expressZodValidations({ coerce: true }));
+    app.get("/items", validateQuery(schema), (req: ValidationRequest, res) => {
+      res.json(req.validationValues?.query);
+    });
+
+    const single = await request(app).get("/items?tag=a&id=1");
+    const repeated = await request(app).get("/items?tag=a&tag=b&id=1&id=2");
+
+    expect(single.body).toEqual({ tag: ["a"], id: [1] });
+    expect(repeated.body).toEqual({ tag: ["a", "b"], id: [1, 2] });
+  });
+
+  it("should coerce route params", async () => {
+    app.get(
+      "/users/:id",
+      validate(
+        { params: z.object({ id: z.int().positive() }) },
+        { coerce: true },
+      ),
+      (req: ValidationRequest, res) => {
+        res.json(req.validationValues?.params);
+      },
+    );
+
+    const response = await request(app).get("/users/42");
+
+    expect(response.body).toEqual({ id: 42 });
+  });
+
+  it("should split comma-separated headers for arrays", async () => {
+    const schema = z.object({
+      "x-features": z.array(z.enum(["a", "b", "c"])),
+      "x-retries": z.number(),
+      "x-debug": z.boolean().optional(),
+    });
+
+    app.get(
+      "/test",
+      validateHeaders(schema, { coerce: true }),
+      (req: ValidationRequest, res) => {
+        res.json(req.validationValues?.headers);
+      },
+    );
+
+    const response = await request(app)
+      .get("/test")
+      .set("X-Features", "a, c")
+      .set("X-Retries", "3")
+      .set("X-Debug", "1");
+
+    expect(response.body).toEqual({
+      "x-features": ["a", "c"],
+      "x-retries": 3,
+      "x-debug": true,
+    });
+  });
+
+  it("should report values that cannot be coerced as issues", async () => {
+    app.get(
+      "/items",
+      validateQuery(z.object({ page: z.number(), active: z.boolean() }), {
+        coerce: true,
+      }),
+      (req: ValidationRequest, res) => {
+        res.status(400).json(
+          req.validationErrors?.query?.issues.map((issue) => ({
+            path: issue.path,
+            code: issue.code,
+          })),
+        );
+      },
+    );
+
+    const response = await request(app).get("/items?page=two&active=maybe");
+
+    expect(response.body).toEqual([
+      { path: ["page"], code: "invalid_type" },
+      { path: ["active"], code: "invalid_type" },
+    ]);
+  });
+
+  it("should only coerce the configured parts", async () => {
+    app.post(
+      "/items",
+      validate(
+        {
+          query: z.object({ page: z.number() }),
+          body: z.object({ count: z.number() }),
+        },
+        { coerce: { query: true } },
+      ),
+      (req: ValidationRequest, res) => {
+        res.json({
+          query: req.validationValues?.query,
+          bodyFailed: !!req.validationErrors?.body,
+        });
+      },
+    );
+
+    const response = await request(app)
+      .post("/items?page=1")
+      .send({ count: "1" });
+
+    expect(response.body).toEqual({ query: { page: 1 }, bodyFailed: true });
+  });
+});
@@ -1,10 +1,16 @@
-import express, { Express } from "express";
+import express, { Express, Router } from "express";
 import request from "supertest";
 import { beforeEach, describe, expect, it } from "vitest";
 import { z } from "zod";
 import {
+  createValidator,
   expressZodValidations,
+  validate,
   validateBody,
+  validateHeaders,
+  validateParams,
+  validateQuery,
+  ValidationError,
   type ValidationRequest,
 } from "../src/index";
 
@@ -102,5 +108,257 @@ describe("configuration", () => {
       expect(response.status).toBe(200);
       expect(response.body.original).toEqual({ text: "trimmed" });
     });
+
+    it("should overwrite request query", async () => {
+      const schema = z.object({
+        page: z.coerce.number().int(),
+        sort: z.enum(["asc", "desc"]).default("asc"),
+      });
+
+      app.use(expressZodValidations({ overwriteRequest: true }));
+      app.get("/test", validateQuery(schema), (req, res) => {
+        res.json({ query: req.query, type: typeof req.query.page });
+      });
+
+      const response = await request(app).get("/test?page=2");
+
+      expect(response.status).toBe(200);
+      expect(response.body.query).toEqual({ page: 2, sort: "asc" });
+      expect(response.body.type).toBe("number");
+    });
+
+    it("should overwrite request params", async () => {
+      const schema = z.object({ id: z.coerce.number() });
+
+      app.use(expressZodValidations({ overwriteRequest: true }));
+      app.get("/test/:id", validateParams(schema), (req, res) => {
+        res.json({ type: typeof req.params.id, params: req.params });
+      });
+
+      const response = await request(app).get("/test/42");
+
+      expect(response.status).toBe(200);
+      expect(response.body.type).toBe("number");
+      expect(response.body.params).toEqual({ id: 42 });
+    });
+
+    it("should overwrite request headers", async () => {
+      const schema = z.object({
+        "x-tenant": z.string().toUpperCase(),
+      });
+
+      app.use(expressZodValidations({ overwriteRequest: true }));
+      app.get("/test", validateHeaders(schema), (req, res) => {
+        res.json({ headers: req.headers });
+      });
+
+      const response = await request(app).get("/test").set("X-Tenant", "acme");
+
+      expect(response.status).toBe(200);
+      expect(response.body.headers).toEqual({ "x-tenant": "ACME" });
+    });
+
+    it("should overwrite only the configured parts", async () => {
+      const schemas = {
+        query: z.object({ page: z.coerce.number() }),
+        body: z.object({ text: z.string().trim() }),
+      };
+
+      app.use(expressZodValidations({ overwriteRequest: { query: true } }));
+      app.post("/test", validate(schemas), (req, res) => {
+        res.json({ query: req.query, body: req.body });
+      });
+
+      const response = await request(app)
+        .post("/test?page=3")
+        .send({ text: "  untouched  " });
+
+      expect(response.status).toBe(200);
+      expect(response.body.query).toEqual({ page: 3 });
+      expect(response.body.body).toEqual({ text: "  untouched  " });
+    });
+  });
+
+  describe("errorMode option", () => {
+    const schemas = {
+      params: z.object({ id: z.uuid() }),
+      body: z.object({ email: z.email() }),
+    };
+
+    const captureError = (app: Express) => {
+      const captured: { error?: ValidationError } = {};
+      app.use((err: any, req: any, res: any, next: any) => {
+        captured.error = err;
+        res.status(400).end();
+      });
+      return captured;
+    };
+
+    it("should forward only the first failing part by default", async () => {
+      app.use(expressZodValidations({ throwErrors: true }));
+      app.put("/users/:id", validate(schemas), (req, res) => {
+        res.json({ success: true });
+      });
+      const captured = captureError(app);
+
+      await request(app).put("/users/invalid").send({ email: "invalid" });
+
+      expect(captured.error).toBeInstanceOf(ValidationError);
+      expect(captured.error?.parts).toEqual(["params"]);
+    });
+
+    it("should aggregate every failing part", async () => {
+      app.use(expressZodValidations({ throwErrors: true, errorMode: "all" }));
+      app.put("/users/:id", validate(schemas), (req, res) => {
+        res.json({ success: true });
+      });
+      const captured = captureError(app);
+
+      await request(app).put("/users/invalid").send({ email: "invalid" });
+
+      expect(captured.error?.parts).toEqual(["params", "body"]);
+      expect(Object.keys(captured.error?.errors ?? {})).toEqual([
+        "params",
+        "body",
+      ]);
+      expect(captured.error?.issues).toHaveLength(2);
+      expect(captured.error?.message).toBe("Invalid request params, body");
+    });
+
+    it("should store values of valid parts in all mode", async () => {
+      app.use(expressZodValidations({ throwErrors: true, errorMode: "all" }));
+      app.put(
+        "/users/:id",
+        validate(schemas),
+        (req: ValidationRequest, res) => {
+          res.json({ success: true });
+        },
+      );
+      app.use((err: any, req: ValidationRequest, res: any, next: any) => {
+        res.status(400).json({
+          values: req.validationValues,
+          failed: Object.keys(req.validationErrors ?? {}),
+        });
+      });
+
+      const response = await request(app)
+        .put("/users/invalid")
+        .send({ email: "john@example.com" });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        values: { body: { email: "john@example.com" } },
+        failed: ["params"],
+      });
+    });
+  });
+
+  describe("per-route and per-router configs", () => {
+    const schema = z.object({ email: z.email() });
+
+    const handleErrors = (app: Express) =>
+      app.use((err: any, req: any, res: any, next: any) => {
+        res.status(err instanceof ValidationError ? 422 : 500).end();
+      });
+
+    it("should override the global config per route", async () => {
+      app.use(expressZodValidations({ throwErrors: true }));
+      app.post(
+        "/legacy",
+        validateBody(schema, { throwErrors: false }),
+        (req: ValidationRequest, res) => {
+          res.status(400).json({ stored: !!req.validationErrors?.body });
+        },
+      );
+      app.post("/modern", validateBody(schema), (req, res) => {
+        res.json({ success: true });
+      });
+      handleErrors(app);
+
+      const legacy = await request(app).post("/legacy").send({ email: "x" });
+      const modern = await request(app).post("/modern").send({ email: "x" });
+
+      expect(legacy.status).toBe(400);
+      expect(legacy.body.stored).toBe(true);
+      expect(modern.status).toBe(422);
+    });
+
+    it("should not leak route overrides to chained validators", async () => {
+      app.post(
+        "/test",
+        validateBody(schema, { throwErrors: true }),
+        validateQuery(z.object({ page: z.string() })),
+        (req: ValidationRequest, res) => {
+          res.json({ queryError: !!req.validationErrors?.query });
+        },
+      );
+      handleErrors(app);
+
+      const response = await request(app)
+        .post("/test")
+        .send({ email: "john@example.com" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.queryError).toBe(true);
+    });
+
+    it("should apply router defaults from createValidator", async () => {
+      const legacy = createValidator({ throwErrors: false });
+      const router = Router();
+      router.post("/users", legacy.validateBody(schema), (req: any, res) => {
+        res.status(400).json({ stored: !!req.validationErrors?.body });
+      });
+
+      app.use(expressZodValidations({ throwErrors: true }));
+      app.use("/legacy", router);
+      handleErrors(app);
+
+      const response = await request(app)
+        .post("/legacy/users")
+        .send({ email: "x" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.stored).toBe(true);
+    });
+
+    it("should let route options take precedence over router defaults", async () => {
+      const { validateBody } = createValidator({
+        throwErrors: false,
+        overwriteRequest: true,
+      });
+
+      app.post(
+        "/test",
+        validateBody(schema.extend({ name: z.string().trim() }), {
+          throwErrors: true,
+        }),
+        (req, res) => {
+          res.json(req.body);
+        },
+      );
+      handleErrors(app);
+
+      const invalid = await request(app).post("/test").send({ email: "x" });
+      const valid = await request(app)
+        .post("/test")
+        .send({ email: "john@example.com", name: "  John  " });
+
+      expect(invalid.status).toBe(422);
+      expect(valid.body).toEqual({ email: "john@example.com", name: "John" });
+    });
+
+    it("should forward Zod parse options", async () => {
+      const { validateBody } = createValidator({
+        error: () => "Custom message",
+      });
+
+      app.post("/test", validateBody(schema), (req: ValidationRequest, res) => {
+        res.json({ message: req.validationErrors?.body?.issues[0].message });
+      });
+
+      const response = await request(app).post("/test").send({});
+
+      expect(response.body.message).toBe("Custom message");
+    });
   });
 });
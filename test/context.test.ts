@@ -0,0 +1,268 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  cachedSchema,
+  expressZodValidations,
+  generateOpenApi,
+  validate,
+  validateBody,
+  validationContext,
+  type ValidatedRequest,
+  type ValidationRequest,
+} from "../src/index";
+
+declare module "../src/index" {
+  interface ValidationContext {
+    reserved?: string[];
+  }
+}
+
+type Role = "admin" | "user";
+
+const roleOf = (req: ValidationRequest) =>
+  (req.get("x-role") ?? "user") as Role;
+
+const userSchema = (role: Role) =>
+  role === "admin"
+    ? z.strictObject({ name: z.string(), role: z.enum(["admin", "user"]) })
+    : z.strictObject({ name: z.string() });
+
+describe("schema factories", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should build the schema of a part from the request", async () => {
+    app.patch(
+      "/users/:id",
+      validate({ body: (req) => userSchema(roleOf(req)) }),
+      (req: ValidatedRequest, res) => {
+        res.json({
+          errors: req.validationErrors?.body?.issues.length ?? 0,
+          values: req.validationValues?.body,
+        });
+      },
+    );
+
+    const admin = await request(app)
+      .patch("/users/1")
+      .set("X-Role", "admin")
+      .send({ name: "John", role: "admin" });
+    const user = await request(app)
+      .patch("/users/1")
+      .send({ name: "John", role: "admin" });
+
+    expect(admin.body).toEqual({
+      errors: 0,
+      values: { name: "John", role: "admin" },
+    });
+    expect(user.body.errors).toBe(1);
+  });
+
+  it("should accept async factories", async () => {
+    const tenants = { acme: ["eu", "us"], globex: ["apac"] };
+
+    app.post(
+      "/tenants/:tenant/regions",
+      validateBody(async (req) => {
+        const regions = await Promise.resolve(
+          tenants[req.params.tenant as keyof typeof tenants],
+        );
+        return z.object({ region: z.enum(regions) });
+      }),
+      (req: ValidatedRequest, res) => {
+        res.json({ valid: !req.validationErrors?.body });
+      },
+    );
+
+    const valid = await request(app)
+      .post("/tenants/acme/regions")
+      .send({ region: "eu" });
+    const invalid = await request(app)
+      .post("/tenants/globex/regions")
+      .send({ region: "eu" });
+
+    expect(valid.body.valid).toBe(true);
+    expect(invalid.body.valid).toBe(false);
+  });
+
+  it("should forward errors thrown by factories", async () => {
+    app.post(
+      "/",
+      validateBody(() => {
+        throw new Error("Unknown tenant");
+      }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(
+      (
+        err: Error,
+        req: express.Request,
+        res: express.Response,
+        _: express.NextFunction,
+      ) => {
+        res.status(500).json({ message: err.message });
+      },
+    );
+
+    const response = await request(app).post("/").send({});
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe("Unknown tenant");
+  });
+
+  it("should build cached schemas once per key", async () => {
+    const factory = vi.fn((req: ValidationRequest) => userSchema(roleOf(req)));
+
+    app.post(
+      "/users",
+      validateBody(cachedSchema(factory, { key: roleOf })),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users").send({ name: "John" });
+    await request(app).post("/users").send({ name: "Jane" });
+    await request(app)
+      .post("/users")
+      .set("X-Role", "admin")
+      .send({ name: "Jim" });
+
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict the oldest cached schemas", async () => {
+    const factory = vi.fn((req: ValidationRequest) => userSchema(roleOf(req)));
+    const cached = cachedSchema(factory, { key: roleOf, max: 1 });
+
+    app.post("/users", validateBody(cached), (req, res) => {
+      res.json({ success: true });
+    });
+
+    await request(app).post("/users").send({ name: "John" });
+    await request(app).post("/users").set("X-Role", "admin").send({});
+    await request(app).post("/users").send({ name: "John" });
+
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it("should leave factories out of OpenAPI documents", () => {
+    app.post(
+      "/users",
+      validate({
+        query: z.object({ dryRun: z.string().optional() }),
+        body: (req) => userSchema(roleOf(req)),
+      }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    const operation = generateOpenApi(app, {
+      info: { title: "Users", version: "1.0.0" },
+    }).paths["/users"].post;
+
+    expect(operation.parameters?.[0].name).toBe("dryRun");
+    expect(operation.requestBody).toBeUndefined();
+  });
+});
+
+describe("validationContext", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  const usernameSchema = z.object({
+    username: z
+      .string()
+      .refine(
+        (username) => !validationContext().reserved?.includes(username),
+        "Reserved username",
+      ),
+  });
+
+  it("should expose the values of the context option to refinements", async () => {
+    app.use(
+      expressZodValidations({
+        context: (req) => ({ reserved: [`${req.get("x-tenant")}-admin`] }),
+      }),
+    );
+    app.post(
+      "/users",
+      validateBody(usernameSchema),
+      (req: ValidationRequest, res) => {
+        res.json({ issues: req.validationErrors?.body?.issues ?? [] });
+      },
+    );
+
+    const reserved = await request(app)
+      .post("/users")
+      .set("X-Tenant", "acme")
+      .send({ username: "acme-admin" });
+    const available = await request(app)
+      .post("/users")
+      .set("X-Tenant", "acme")
+      .send({ username: "john" });
+
+    expect(reserved.body.issues[0].message).toBe("Reserved username");
+    expect(available.body.issues).toEqual([]);
+  });
+
+  it("should expose the request to async refinements", async () => {
+    const schema = z.object({
+      id: z.string().refine(async (id) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return id === validationContext().req.get("x-user-id");
+      }, "Not your account"),
+    });
+
+    app.get(
+      "/accounts/:id",
+      validate({ params: schema }),
+      (req: ValidationRequest, res) => {
+        res.json({ valid: !req.validationErrors?.params });
+      },
+    );
+
+    const own = await request(app).get("/accounts/42").set("X-User-Id", "42");
+    const other = await request(app).get("/accounts/7").set("X-User-Id", "42");
+
+    expect(own.body.valid).toBe(true);
+    expect(other.body.valid).toBe(false);
+  });
+
+  it("should build the context once per request", async () => {
+    const context = vi.fn(() => ({ reserved: [] }));
+
+    app.use(expressZodValidations({ context }));
+    app.post(
+      "/users",
+      validateBody(usernameSchema),
+      validate({ query: z.object({}) }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users").send({ username: "john" });
+
+    expect(context).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw outside of validation", () => {
+    expect(() => validationContext()).toThrow(
+      "validationContext() called outside of validation",
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  defineRoute,
+  generateOpenApi,
+  mountRoute,
+  validationErrorHandler,
+} from "../src/index";
+
+describe("route contracts", () => {
+  let app: Express;
+
+  const getPost = defineRoute({
+    method: "get",
+    path: "/posts/:id",
+    request: {
+      params: z.object({ id: z.coerce.number().int() }),
+      query: z.object({ fields: z.string().optional() }),
+    },
+    responses: {
+      200: z.object({ id: z.number(), title: z.string() }),
+      404: z.object({ message: z.string() }),
+    },
+  });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should pass parsed inputs to the handler and send its result", async () => {
+    mountRoute(app, getPost, ({ params }) => ({
+      status: 200,
+      body: { id: params.id, title: "Hello" },
+    }));
+
+    const response = await request(app).get("/posts/42");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 42, title: "Hello" });
+  });
+
+  it("should send the status returned by the handler", async () => {
+    mountRoute(app, getPost, async () => ({
+      status: 404,
+      body: { message: "Post not found" },
+    }));
+
+    const response = await request(app).get("/posts/42");
+
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({ message: "Post not found" });
+  });
+
+  it("should forward a ValidationError without calling the handler", async () => {
+    let called = false;
+
+    mountRoute(app, getPost, () => {
+      called = true;
+      return { status: 404, body: { message: "Post not found" } };
+    });
+    app.use(validationErrorHandler());
+
+    const response = await request(app).get("/posts/abc");
+
+    expect(called).toBe(false);
+    expect(response.status).toBe(400);
+    expect(response.body.errors[0].part).toBe("params");
+  });
+
+  it("should validate the handler result against the response schema", async () => {
+    const createPost = defineRoute({
+      method: "post",
+      path: "/posts",
+      request: { body: z.object({ title: z.string() }) },
+      responses: { 201: z.object({ id: z.number(), title: z.string() }) },
+    });
+
+    mountRoute(
+      app,
+      createPost,
+      ({ body }) =>
+        ({
+          status: 201,
+          body: { id: 1, title: body.title, draft: true },
+        }) as { status: 201; body: { id: number; title: string } },
+    );
+
+    const response = await request(app).post("/posts").send({ title: "Hello" });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ id: 1, title: "Hello" });
+  });
+
+  it("should end responses without a body", async () => {
+    const deletePost = defineRoute({
+      method: "delete",
+      path: "/posts/:id",
+      request: { params: z.object({ id: z.string() }) },
+      responses: { 204: z.undefined() },
+    });
+
+    mountRoute(app, deletePost, () => ({ status: 204, body: undefined }));
+
+    const response = await request(app).delete("/posts/1");
+
+    expect(response.status).toBe(204);
+    expect(response.text).toBe("");
+  });
+
+  it("should forward errors thrown by the handler", async () => {
+    mountRoute(app, getPost, () => {
+      throw new Error("Database unavailable");
+    });
+    app.use(
+      (
+        err: Error,
+        req: express.Request,
+        res: express.Response,
+        _: express.NextFunction,
+      ) => {
+        res.status(503).json({ message: err.message });
+      },
+    );
+
+    const response = await request(app).get("/posts/42");
+
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ message: "Database unavailable" });
+  });
+
+  it("should document mounted contracts in OpenAPI", () => {
+    mountRoute(app, getPost, ({ params }) => ({
+      status: 200,
+      body: { id: params.id, title: "Hello" },
+    }));
+
+    const document = generateOpenApi(app, {
+      info: { title: "Blog", version: "1.0.0" },
+    });
+    const operation = document.paths["/posts/{id}"].get;
+
+    expect(operation.parameters?.map(({ name }) => name)).toEqual([
+      "id",
+      "fields",
+    ]);
+    expect(Object.keys(operation.responses)).toEqual(["200", "404"]);
+  });
+});
@@ -0,0 +1,182 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z, ZodError } from "zod";
+import {
+  expressZodValidations,
+  validate,
+  validateBody,
+  validationErrorHandler,
+  ValidationError,
+} from "../src/index";
+
+describe("validationErrorHandler", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use(expressZodValidations({ throwErrors: true }));
+  });
+
+  it("should forward a ValidationError carrying the failed part", async () => {
+    let caught: unknown;
+
+    app.get(
+      "/users/:id",
+      validate({ params: z.object({ id: z.uuid() }) }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use((err: unknown, req: any, res: any, next: any) => {
+      caught = err;
+      res.status(400).end();
+    });
+
+    await request(app).get("/users/invalid");
+
+    expect(caught).toBeInstanceOf(ValidationError);
+    expect((caught as ValidationError).part).toBe("params");
+    expect((caught as ValidationError).cause.name).toBe("ZodError");
+  });
+
+  it("should be a ZodError with the issues of every failed part", () => {
+    const params = z.object({ id: z.uuid() }).safeParse({}).error!;
+    const body = z.object({ name: z.string() }).safeParse({}).error!;
+    const error = new ValidationError({ params, body });
+
+    expect(error).toBeInstanceOf(ZodError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.issues).toEqual([...params.issues, ...body.issues]);
+    expect(error.message).toBe("Invalid request params, body");
+    expect(error.stack).toContain("Invalid request params, body");
+    expect(params).not.toBeInstanceOf(ValidationError);
+  });
+
+  it("should respond with application/problem+json", async () => {
+    app.post(
+      "/users",
+      validateBody(z.object({ email: z.email(), name: z.string() })),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/users")
+      .send({ email: "invalid", name: 1 });
+
+    expect(response.status).toBe(400);
+    expect(response.headers["content-type"]).toContain(
+      "application/problem+json",
+    );
+    expect(response.body).toMatchObject({
+      type: "about:blank",
+      title: "Validation failed",
+      status: 400,
+      detail: "Invalid request body",
+      instance: "/users",
+    });
+    expect(response.body.errors).toEqual([
+      expect.objectContaining({
+        part: "body",
+        pointer: "/email",
+        code: "invalid_format",
+      }),
+      expect.objectContaining({
+        part: "body",
+        pointer: "/name",
+        code: "invalid_type",
+      }),
+    ]);
+  });
+
+  it("should apply per-part status codes and titles", async () => {
+    app.get(
+      "/protected",
+      validate({ headers: z.object({ authorization: z.string() }) }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(
+      validationErrorHandler({
+        status: 422,
+        parts: { headers: { status: 401, title: "Unauthorized" } },
+      }),
+    );
+
+    const response = await request(app).get("/protected");
+
+    expect(response.status).toBe(401);
+    expect(response.body.title).toBe("Unauthorized");
+    expect(response.body.errors[0].part).toBe("headers");
+  });
+
+  it("should customize the response shape", async () => {
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string() })),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(
+      validationErrorHandler({
+        format: (problem, error) => ({
+          message: problem.title,
+          fields: error.issues.map((issue) => issue.path.join(".")),
+        }),
+      }),
+    );
+
+    const response = await request(app).post("/users").send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      message: "Validation failed",
+      fields: ["name"],
+    });
+  });
+
+  it("should pass other errors to the next error handler", async () => {
+    app.get("/boom", () => {
+      throw new Error("boom");
+    });
+    app.use(validationErrorHandler());
+    app.use((err: Error, req: any, res: any, next: any) => {
+      res.status(500).json({ message: err.message });
+    });
+
+    const response = await request(app).get("/boom");
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe("boom");
+  });
+
+  it("should list issues of every failed part", async () => {
+    app.use(expressZodValidations({ throwErrors: true, errorMode: "all" }));
+    app.put(
+      "/users/:id",
+      validate({
+        params: z.object({ id: z.uuid() }),
+        body: z.object({ name: z.string() }),
+      }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app).put("/users/invalid").send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toBe("Invalid request params, body");
+    expect(response.body.errors).toEqual([
+      expect.objectContaining({ part: "params", pointer: "/id" }),
+      expect.objectContaining({ part: "body", pointer: "/name" }),
+    ]);
+  });
+});
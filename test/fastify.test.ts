@@ -0,0 +1,205 @@
+import Fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi,
+} from "vitest";
+import { z } from "zod";
+import {
+  toProblemDetails,
+  validationContext,
+  ValidationError,
+} from "../src/index";
+import {
+  fastifyZodValidations,
+  validate,
+  validateBody,
+  validateCookies,
+  type FastifyValidatedRequest,
+} from "../src/fastify";
+
+describe("Fastify adapter", () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+  });
+
+  afterEach(() => app.close());
+
+  it("should store the values of valid parts", async () => {
+    app.put(
+      "/users/:id",
+      {
+        preValidation: validate({
+          params: z.object({ id: z.coerce.number() }),
+          body: z.object({ name: z.string() }),
+        }),
+      },
+      async (request) => ({
+        values: request.validationValues,
+        errors: Object.keys(request.validationErrors ?? {}),
+      }),
+    );
+
+    const response = await app.inject({
+      method: "PUT",
+      url: "/users/42",
+      payload: { name: "John" },
+    });
+
+    expect(response.json()).toEqual({
+      values: { params: { id: 42 }, body: { name: "John" } },
+      errors: [],
+    });
+  });
+
+  it("should type the values of the validated requests", async () => {
+    const hook = validateBody(
+      z.object({ name: z.string().transform((name) => name.length) }),
+    );
+    app.post("/users", { preValidation: hook }, async (request) => {
+      const { validationValues } = request as FastifyValidatedRequest<
+        typeof hook.schemas
+      >;
+      const body = validationValues?.body;
+      expectTypeOf(body).toEqualTypeOf<{ name: number } | undefined>();
+      return body;
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/users",
+      payload: { name: "John" },
+    });
+
+    expect(response.json()).toEqual({ name: 4 });
+  });
+
+  it("should throw validation errors to the error handler", async () => {
+    app.setErrorHandler((error, request, reply) => {
+      if (!(error instanceof ValidationError)) return reply.send(error);
+      reply
+        .status(400)
+        .type("application/problem+json")
+        .send(toProblemDetails(error, {}, request.url));
+    });
+    app.post(
+      "/users",
+      {
+        preValidation: validateBody(z.object({ email: z.email() }), {
+          throwErrors: true,
+        }),
+      },
+      async () => ({ success: true }),
+    );
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/users",
+      payload: { email: "invalid" },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({
+      instance: "/users",
+      errors: [{ part: "body", pointer: "/email" }],
+    });
+  });
+
+  it("should apply the global configs, route options taking precedence", async () => {
+    const onFailure = vi.fn();
+    app.addHook(
+      "onRequest",
+      fastifyZodValidations({ throwErrors: true, onFailure }),
+    );
+    const body = z.object({ email: z.email() });
+    const respond = async (request: FastifyRequest) => ({
+      errors: Object.keys(request.validationErrors ?? {}),
+    });
+    app.post("/thrown", { preValidation: validate({ body }) }, respond);
+    app.post(
+      "/stored",
+      { preValidation: validate({ body }, { throwErrors: false }) },
+      respond,
+    );
+
+    const [thrown, stored] = await Promise.all(
+      ["/thrown", "/stored"].map((url) =>
+        app.inject({ method: "POST", url, payload: { email: "invalid" } }),
+      ),
+    );
+
+    expect(thrown.statusCode).toBe(500);
+    expect(stored.json()).toEqual({ errors: ["body"] });
+    expect(onFailure).toHaveBeenCalledTimes(2);
+  });
+
+  it("should parse cookies and coerce the query", async () => {
+    app.get(
+      "/posts",
+      {
+        preValidation: [
+          validateCookies(z.object({ session: z.string().min(3) })),
+          validate(
+            { query: z.object({ page: z.number().int() }) },
+            { coerce: true, overwriteRequest: true },
+          ),
+        ],
+      },
+      async (request) => ({
+        cookies: request.validationValues?.cookies,
+        query: request.query,
+      }),
+    );
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/posts?page=2",
+      headers: { cookie: "session=abc123" },
+    });
+
+    expect(response.json()).toEqual({
+      cookies: { session: "abc123" },
+      query: { page: 2 },
+    });
+  });
+
+  it("should report the route and expose the request to refinements", async () => {
+    const onComplete = vi.fn();
+
+    app.get(
+      "/accounts/:id",
+      {
+        preValidation: validate(
+          {
+            params: z.object({
+              id: z
+                .string()
+                .refine((id) => id === validationContext().req.get("x-user")),
+            }),
+          },
+          { onComplete },
+        ),
+      },
+      async (request) => ({ valid: !request.validationErrors?.params }),
+    );
+
+    const own = await app.inject({
+      url: "/accounts/7",
+      headers: { "x-user": "7" },
+    });
+    const other = await app.inject({
+      url: "/accounts/8",
+      headers: { "x-user": "7" },
+    });
+
+    expect(own.json()).toEqual({ valid: true });
+    expect(other.json()).toEqual({ valid: false });
+    expect(onComplete.mock.calls[0][0].route).toBe("/accounts/:id");
+  });
+});
@@ -0,0 +1,148 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validateBody,
+  validationErrorHandler,
+  ValidationTimeoutError,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("payload guards", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  const respond = (req: ValidationRequest, res: express.Response) => {
+    res.json({ issues: req.validationErrors?.body?.issues ?? [] });
+  };
+
+  it("should reject payloads nested deeper than maxDepth", async () => {
+    app.post("/", validateBody(z.any(), { guards: { maxDepth: 3 } }), respond);
+
+    const response = await request(app)
+      .post("/")
+      .send({ a: { b: { c: { d: 1 } } } });
+
+    expect(response.body.issues).toEqual([
+      expect.objectContaining({
+        code: "custom",
+        path: ["a", "b", "c"],
+        params: { guard: "maxDepth", limit: 3, status: 413 },
+      }),
+    ]);
+  });
+
+  it("should reject long arrays and objects with too many keys", async () => {
+    app.post(
+      "/",
+      validateBody(z.any(), { guards: { maxArrayLength: 2, maxKeys: 2 } }),
+      respond,
+    );
+
+    const array = await request(app)
+      .post("/")
+      .send({ tags: ["a", "b", "c"] });
+    const object = await request(app).post("/").send({ a: 1, b: 2, c: 3 });
+
+    expect(array.body.issues[0].params.guard).toBe("maxArrayLength");
+    expect(array.body.issues[0].path).toEqual(["tags"]);
+    expect(object.body.issues[0].params.guard).toBe("maxKeys");
+  });
+
+  it("should reject prototype keys", async () => {
+    app.post(
+      "/",
+      validateBody(z.looseObject({}), { guards: { rejectProtoKeys: true } }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/")
+      .type("json")
+      .send('{"user":{"__proto__":{"admin":true}}}');
+
+    expect(response.body.issues[0]).toMatchObject({
+      path: ["user", "__proto__"],
+      message: 'Forbidden key "__proto__"',
+    });
+  });
+
+  it("should answer size violations with 413", async () => {
+    app.post(
+      "/",
+      validateBody(z.array(z.number()), {
+        throwErrors: true,
+        guards: { maxArrayLength: 10 },
+      }),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/")
+      .send(Array.from({ length: 11 }, (_, index) => index));
+
+    expect(response.status).toBe(413);
+  });
+
+  it("should cap the number of reported issues", async () => {
+    app.post(
+      "/",
+      validateBody(z.array(z.number()), { guards: { maxIssues: 2 } }),
+      respond,
+    );
+
+    const response = await request(app).post("/").send(["a", "b", "c", "d"]);
+
+    expect(response.body.issues).toHaveLength(2);
+  });
+
+  it("should time out slow async parsing", async () => {
+    const slowSchema = z.string().refine(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return true;
+    });
+    let forwarded: unknown;
+
+    app.post(
+      "/",
+      validateBody(z.object({ name: slowSchema }), { guards: { timeout: 20 } }),
+      respond,
+    );
+    app.use(
+      (
+        err: unknown,
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction,
+      ) => {
+        forwarded = err;
+        next(err);
+      },
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app).post("/").send({ name: "John" });
+
+    expect(response.status).toBe(503);
+    expect(response.body.title).toBe("Validation timed out");
+    expect(forwarded).toBeInstanceOf(ValidationTimeoutError);
+    expect((forwarded as ValidationTimeoutError).part).toBe("body");
+  });
+
+  it("should not time out fast async parsing", async () => {
+    const schema = z.object({ name: z.string().refine(async () => true) });
+
+    app.post("/", validateBody(schema, { guards: { timeout: 1000 } }), respond);
+
+    const response = await request(app).post("/").send({ name: "John" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { Hono } from "hono";
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { z } from "zod";
+import { toProblemDetails, ValidationError } from "../src/index";
+import {
+  createValidator,
+  honoZodValidations,
+  validate,
+  validateBody,
+  validateQuery,
+} from "../src/hono";
+
+describe("Hono adapter", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    app = new Hono();
+  });
+
+  it("should store the values of valid parts", async () => {
+    app.put(
+      "/users/:id",
+      validate({
+        params: z.object({ id: z.coerce.number() }),
+        headers: z.object({ "x-tenant": z.string() }),
+        body: z.object({ name: z.string() }),
+      }),
+      (c) =>
+        c.json({
+          values: c.get("validationValues"),
+          errors: Object.keys(c.get("validationErrors")),
+        }),
+    );
+
+    const response = await app.request("/users/42", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "X-Tenant": "acme" },
+      body: JSON.stringify({ name: "John" }),
+    });
+
+    expect(await response.json()).toEqual({
+      values: {
+        params: { id: 42 },
+        headers: { "x-tenant": "acme" },
+        body: { name: "John" },
+      },
+      errors: [],
+    });
+  });
+
+  it("should type the values for the next handlers", async () => {
+    app.post(
+      "/users",
+      validateBody(
+        z.object({ name: z.string().transform((name) => name.length) }),
+      ),
+      (c) => {
+        const { body } = c.get("validationValues");
+        expectTypeOf(body).toEqualTypeOf<{ name: number }>();
+        return c.json(body);
+      },
+    );
+
+    const response = await app.request("/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "John" }),
+    });
+
+    expect(await response.json()).toEqual({ name: 4 });
+  });
+
+  it("should read repeated query parameters as arrays", async () => {
+    app.get(
+      "/posts",
+      validateQuery(z.object({ tag: z.array(z.string()), page: z.number() }), {
+        coerce: true,
+      }),
+      (c) => c.json(c.get("validationValues").query),
+    );
+
+    const response = await app.request("/posts?tag=a&tag=b&page=2");
+
+    expect(await response.json()).toEqual({ tag: ["a", "b"], page: 2 });
+  });
+
+  it("should report malformed and form bodies", async () => {
+    app.post("/users", validateBody(z.object({ name: z.string() })), (c) =>
+      c.json({
+        values: c.get("validationValues"),
+        errors: Object.keys(c.get("validationErrors")),
+      }),
+    );
+
+    const malformed = await app.request("/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{",
+    });
+    const form = await app.request("/users", {
+      method: "POST",
+      body: new URLSearchParams({ name: "John" }),
+    });
+
+    expect((await malformed.json()).errors).toEqual(["body"]);
+    expect((await form.json()).values).toEqual({ body: { name: "John" } });
+  });
+
+  it("should throw validation errors to onError", async () => {
+    const { validateParams } = createValidator({ throwErrors: true });
+
+    app.onError((error, c) => {
+      if (!(error instanceof ValidationError)) throw error;
+      return c.json(toProblemDetails(error), 400);
+    });
+    app.get("/users/:id", validateParams(z.object({ id: z.uuid() })), (c) =>
+      c.json({ success: true }),
+    );
+
+    const response = await app.request("/users/42");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors[0]).toMatchObject({
+      part: "params",
+      pointer: "/id",
+    });
+  });
+
+  it("should apply the global configs, route options taking precedence", async () => {
+    const onFailure = vi.fn();
+    app.onError((_, c) => c.text("Internal Server Error", 500));
+    app.use(honoZodValidations({ throwErrors: true, onFailure }));
+    const query = z.object({ page: z.coerce.number().int() });
+    app.get("/thrown", validate({ query }), (c) => c.json({}));
+    app.get("/stored", validate({ query }, { throwErrors: false }), (c) =>
+      c.json({ errors: Object.keys(c.get("validationErrors")) }),
+    );
+
+    const thrown = await app.request("/thrown?page=abc");
+    const stored = await app.request("/stored?page=abc");
+
+    expect(thrown.status).toBe(500);
+    expect(await stored.json()).toEqual({ errors: ["query"] });
+    expect(onFailure).toHaveBeenCalledTimes(2);
+  });
+});
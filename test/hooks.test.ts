@@ -0,0 +1,229 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  prometheusMetrics,
+  validate,
+  validateBody,
+  type ValidationEvent,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("lifecycle hooks", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should call onSuccess and onComplete for valid parts", async () => {
+    const onSuccess = vi.fn();
+    const onFailure = vi.fn();
+    const onComplete = vi.fn();
+
+    app.post(
+      "/users/:id",
+      validate(
+        {
+          params: z.object({ id: z.string() }),
+          body: z.object({ name: z.string() }),
+        },
+        { onSuccess, onFailure, onComplete },
+      ),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users/42").send({ name: "John" });
+
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    expect(onFailure).not.toHaveBeenCalled();
+    expect(onComplete).toHaveBeenCalledTimes(2);
+    expect(onSuccess.mock.calls[0][0]).toMatchObject({
+      method: "POST",
+      route: "/users/:id",
+      part: "params",
+      success: true,
+      issues: [],
+    });
+  });
+
+  it("should call onFailure with the issues", async () => {
+    const onFailure = vi.fn();
+
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string() }), { onFailure }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users").send({ name: 1 });
+
+    const event: ValidationEvent = onFailure.mock.calls[0][0];
+    expect(event.part).toBe("body");
+    expect(event.success).toBe(false);
+    expect(event.issues[0]).toMatchObject({
+      code: "invalid_type",
+      path: ["name"],
+    });
+  });
+
+  it("should measure the duration of async refinements", async () => {
+    const onComplete = vi.fn();
+    const slowSchema = z.object({ name: z.string() }).refine(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return true;
+    });
+
+    app.post("/users", validateBody(slowSchema, { onComplete }), (req, res) => {
+      res.json({ success: true });
+    });
+
+    await request(app).post("/users").send({ name: "John" });
+
+    expect(onComplete.mock.calls[0][0].duration).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should run both global and route hooks", async () => {
+    const globalHook = vi.fn();
+    const routeHook = vi.fn();
+
+    app.use(expressZodValidations({ onComplete: globalHook }));
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string() }), { onComplete: routeHook }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users").send({ name: "John" });
+
+    expect(globalHook).toHaveBeenCalledTimes(1);
+    expect(routeHook).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore the errors of the hooks", async () => {
+    const onComplete = vi.fn();
+
+    app.use(
+      expressZodValidations({
+        onFailure: () => {
+          throw new Error("Metrics unavailable");
+        },
+        onComplete: async () => {
+          throw new Error("Metrics unavailable");
+        },
+      }),
+    );
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string() }), { onComplete }),
+      (req: ValidationRequest, res) => {
+        res.json({ errors: Object.keys(req.validationErrors ?? {}) });
+      },
+    );
+
+    const response = await request(app).post("/users").send({ name: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.errors).toEqual(["body"]);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("should include the mount path of routers in the route", async () => {
+    const onComplete = vi.fn();
+    const router = express.Router();
+
+    router.get(
+      "/:id",
+      validate({ params: z.object({ id: z.string() }) }, { onComplete }),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use("/api/users", router);
+
+    await request(app).get("/api/users/42");
+
+    expect(onComplete.mock.calls[0][0].route).toBe("/api/users/:id");
+  });
+});
+
+describe("prometheusMetrics", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should count parts and issues per route", async () => {
+    const metrics = prometheusMetrics();
+
+    app.use(expressZodValidations({ ...metrics.hooks }));
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string(), email: z.email() })),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.get("/metrics", metrics.handler);
+
+    await request(app).post("/users").send({ name: "John", email: "a@b.co" });
+    await request(app).post("/users").send({ name: 1, email: "invalid" });
+    await request(app).post("/users").send({ email: "a@b.co" });
+
+    const response = await request(app).get("/metrics");
+    const labels = 'method="POST",route="/users",part="body"';
+
+    expect(response.headers["content-type"]).toContain("text/plain");
+    expect(response.text).toContain("# TYPE validation_parts_total counter");
+    expect(response.text).toContain(
+      `validation_parts_total{${labels},result="success"} 1`,
+    );
+    expect(response.text).toContain(
+      `validation_parts_total{${labels},result="failure"} 2`,
+    );
+    expect(response.text).toContain(
+      `validation_issues_total{${labels},code="invalid_type"} 2`,
+    );
+    expect(response.text).toContain(
+      `validation_issues_total{${labels},code="invalid_format"} 1`,
+    );
+  });
+
+  it("should record durations in a histogram", async () => {
+    const metrics = prometheusMetrics({ prefix: "api_", buckets: [0.1, 1] });
+
+    app.post(
+      "/users",
+      validateBody(z.object({ name: z.string() }), metrics.hooks),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+
+    await request(app).post("/users").send({ name: "John" });
+
+    const text = metrics.metrics();
+    const labels = 'method="POST",route="/users",part="body"';
+
+    expect(text).toContain("# TYPE api_duration_seconds histogram");
+    expect(text).toContain(`api_duration_seconds_bucket{${labels},le="0.1"} 1`);
+    expect(text).toContain(
+      `api_duration_seconds_bucket{${labels},le="+Inf"} 1`,
+    );
+    expect(text).toContain(`api_duration_seconds_count{${labels}} 1`);
+
+    metrics.reset();
+    expect(metrics.metrics()).not.toContain("api_duration_seconds_count");
+  });
+});
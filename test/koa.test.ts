@@ -0,0 +1,190 @@
+import { bodyParser } from "@koa/bodyparser";
+import Router from "@koa/router";
+import Koa from "koa";
+import request from "supertest";
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { z } from "zod";
+import { toProblemDetails, ValidationError } from "../src/index";
+import {
+  koaZodValidations,
+  validate,
+  validateBody,
+  type KoaValidationState,
+} from "../src/koa";
+
+declare module "../src/index" {
+  interface ValidationParts {
+    user: true;
+  }
+}
+
+describe("Koa adapter", () => {
+  let app: Koa<KoaValidationState>;
+  let router: Router;
+
+  beforeEach(() => {
+    app = new Koa();
+    router = new Router();
+    app.use(bodyParser());
+  });
+
+  /** Mounts the router and injects a request into the app */
+  const client = () => {
+    app.use(router.routes());
+    return request(app.callback());
+  };
+
+  const respond = (ctx: Koa.ParameterizedContext<KoaValidationState>) => {
+    ctx.body = {
+      values: ctx.state.validationValues,
+      errors: Object.keys(ctx.state.validationErrors),
+    };
+  };
+
+  it("should store the values of valid parts", async () => {
+    router.put(
+      "/users/:id",
+      validate({
+        params: z.object({ id: z.coerce.number() }),
+        query: z.object({ notify: z.enum(["yes", "no"]) }),
+        body: z.object({ name: z.string() }),
+      }),
+      respond,
+    );
+
+    const response = await client()
+      .put("/users/42?notify=yes")
+      .send({ name: "John" });
+
+    expect(response.body).toEqual({
+      values: {
+        params: { id: 42 },
+        query: { notify: "yes" },
+        body: { name: "John" },
+      },
+      errors: [],
+    });
+  });
+
+  it("should type the values for the next middlewares", async () => {
+    router.post(
+      "/users",
+      validateBody(
+        z.object({ name: z.string().transform((name) => name.length) }),
+      ),
+      (ctx) => {
+        expectTypeOf(ctx.state.validationValues.body).toEqualTypeOf<{
+          name: number;
+        }>();
+        ctx.body = ctx.state.validationValues.body;
+      },
+    );
+
+    const response = await client().post("/users").send({ name: "John" });
+
+    expect(response.body).toEqual({ name: 4 });
+  });
+
+  it("should store the errors of invalid parts", async () => {
+    router.post(
+      "/users",
+      validateBody(z.object({ name: z.string() })),
+      respond,
+    );
+
+    const response = await client().post("/users").send({ name: 1 });
+
+    expect(response.body.errors).toEqual(["body"]);
+  });
+
+  it("should throw validation errors with throwErrors", async () => {
+    app.use(async (ctx, next) => {
+      try {
+        await next();
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        ctx.status = 400;
+        ctx.body = toProblemDetails(error);
+      }
+    });
+    router.get(
+      "/users",
+      validate(
+        { query: z.object({ page: z.coerce.number().int() }) },
+        { throwErrors: true },
+      ),
+      respond,
+    );
+
+    const response = await client().get("/users?page=abc");
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors[0]).toMatchObject({
+      part: "query",
+      pointer: "/page",
+    });
+  });
+
+  it("should apply the global configs, route options taking precedence", async () => {
+    const onFailure = vi.fn();
+    app.silent = true;
+    app.use(koaZodValidations({ throwErrors: true, onFailure }));
+    const query = z.object({ page: z.coerce.number().int() });
+    router.get("/thrown", validate({ query }), respond);
+    router.get("/stored", validate({ query }, { throwErrors: false }), respond);
+
+    const thrown = await client().get("/thrown?page=abc");
+    const stored = await request(app.callback()).get("/stored?page=abc");
+
+    expect(thrown.status).toBe(500);
+    expect(stored.body.errors).toEqual(["query"]);
+    expect(onFailure).toHaveBeenCalledTimes(2);
+  });
+
+  it("should overwrite the request with the parsed values", async () => {
+    router.get(
+      "/users/:id",
+      validate(
+        {
+          params: z.object({ id: z.coerce.number() }),
+          query: z.object({ tag: z.array(z.string()) }),
+        },
+        { overwriteRequest: true, coerce: true },
+      ),
+      (ctx) => {
+        ctx.body = { params: ctx.params, query: ctx.query };
+      },
+    );
+
+    const response = await client().get("/users/7?tag=a");
+
+    expect(response.body).toEqual({ params: { id: 7 }, query: { tag: ["a"] } });
+  });
+
+  it("should report the route and read parts from the state", async () => {
+    const onComplete = vi.fn();
+
+    router.delete(
+      "/posts/:id",
+      async (ctx, next) => {
+        ctx.state.user = { role: "admin" };
+        await next();
+      },
+      validate(
+        { user: z.object({ role: z.literal("admin") }) },
+        {
+          onComplete,
+        },
+      ),
+      respond,
+    );
+
+    const response = await client().delete("/posts/1");
+
+    expect(response.body.errors).toEqual([]);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({
+      method: "DELETE",
+      route: "/posts/:id",
+    });
+  });
+});
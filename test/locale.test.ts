@@ -0,0 +1,159 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  negotiateLocale,
+  validateBody,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("localized messages", () => {
+  let app: Express;
+
+  const schema = z.object({ age: z.number() });
+
+  const respondWithMessage = (req: ValidationRequest, res: any) => {
+    res.json({
+      locale: req.validationLocale,
+      message: req.validationErrors?.body?.issues[0].message,
+    });
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should keep Zod's default messages without locales", async () => {
+    app.post("/test", validateBody(schema), respondWithMessage);
+
+    const response = await request(app)
+      .post("/test")
+      .set("Accept-Language", "fr")
+      .send({ age: "1" });
+
+    expect(response.body.locale).toBeUndefined();
+    expect(response.body.message).toBe(
+      "Invalid input: expected number, received string",
+    );
+  });
+
+  it("should negotiate the locale from Accept-Language", async () => {
+    app.use(
+      expressZodValidations({
+        locales: { fr: z.locales.fr(), de: z.locales.de() },
+      }),
+    );
+    app.post("/test", validateBody(schema), respondWithMessage);
+
+    const french = await request(app)
+      .post("/test")
+      .set("Accept-Language", "it;q=0.9, fr-CA;q=0.8, de;q=0.5")
+      .send({ age: "1" });
+    const german = await request(app)
+      .post("/test")
+      .set("Accept-Language", "de-DE")
+      .send({ age: "1" });
+
+    expect(french.body.locale).toBe("fr");
+    expect(french.body.message).toBe(
+      "Entrée invalide : number attendu, string reçu",
+    );
+    expect(german.body.locale).toBe("de");
+    expect(german.body.message).toBe(
+      "Ungültige Eingabe: erwartet number, erhalten string",
+    );
+  });
+
+  it("should fall back to the default locale", async () => {
+    app.use(
+      expressZodValidations({
+        locales: { en: z.locales.en(), fr: z.locales.fr() },
+        defaultLocale: "en",
+      }),
+    );
+    app.post("/test", validateBody(schema), respondWithMessage);
+
+    const response = await request(app)
+      .post("/test")
+      .set("Accept-Language", "ja")
+      .send({ age: "1" });
+
+    expect(response.body.locale).toBe("en");
+  });
+
+  it("should use user-supplied catalogs and resolvers", async () => {
+    app.use(
+      expressZodValidations({
+        locales: {
+          fr: { invalid_type: (issue) => `Attendu : ${issue.expected}` },
+        },
+        resolveLocale: (req) => req.query.lang as string,
+      }),
+    );
+    app.post("/test", validateBody(schema), respondWithMessage);
+
+    const response = await request(app)
+      .post("/test?lang=fr")
+      .send({ age: "1" });
+
+    expect(response.body).toEqual({
+      locale: "fr",
+      message: "Attendu : number",
+    });
+  });
+
+  it("should keep custom schema messages and route error maps", async () => {
+    app.use(expressZodValidations({ locales: { fr: z.locales.fr() } }));
+    app.post(
+      "/schema",
+      validateBody(z.object({ age: z.number("Âge invalide") })),
+      respondWithMessage,
+    );
+    app.post(
+      "/route",
+      validateBody(schema, {
+        error: (issue) =>
+          issue.code === "invalid_type" ? "Route message" : undefined,
+      }),
+      respondWithMessage,
+    );
+
+    const fromSchema = await request(app)
+      .post("/schema")
+      .set("Accept-Language", "fr")
+      .send({ age: "1" });
+    const fromRoute = await request(app)
+      .post("/route")
+      .set("Accept-Language", "fr")
+      .send({ age: "1" });
+
+    expect(fromSchema.body.message).toBe("Âge invalide");
+    expect(fromRoute.body.message).toBe("Route message");
+  });
+
+  it("should not change Zod's global configuration", async () => {
+    app.use(expressZodValidations({ locales: { fr: z.locales.fr() } }));
+    app.post("/test", validateBody(schema), respondWithMessage);
+
+    await request(app)
+      .post("/test")
+      .set("Accept-Language", "fr")
+      .send({ age: "1" });
+
+    expect(schema.safeParse({ age: "1" }).error?.issues[0].message).toBe(
+      "Invalid input: expected number, received string",
+    );
+  });
+});
+
+describe("negotiateLocale", () => {
+  it("should prefer exact tags, then primary subtags", () => {
+    expect(negotiateLocale("pt-BR, pt;q=0.9", ["pt", "pt-BR"])).toBe("pt-BR");
+    expect(negotiateLocale("pt-PT", ["pt", "pt-BR"])).toBe("pt");
+    expect(negotiateLocale("es, *;q=0.1", ["en"])).toBeUndefined();
+    expect(negotiateLocale(undefined, ["en"])).toBeUndefined();
+  });
+});
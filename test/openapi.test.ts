@@ -0,0 +1,205 @@
+import express, { Express, Router } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  generateOpenApi,
+  serveOpenApi,
+  validate,
+  validateBody,
+  validateContent,
+  validateHeaders,
+  validateResponse,
+} from "../src/index";
+
+const info = { title: "Test API", version: "1.0.0" };
+
+describe("generateOpenApi", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should expose the schemas on the middleware", () => {
+    const schemas = { body: z.object({ name: z.string() }) };
+
+    expect(validate(schemas).schemas).toBe(schemas);
+  });
+
+  it("should describe parameters and request bodies", () => {
+    app.put(
+      "/posts/:id",
+      validate({
+        params: z.object({ id: z.string().describe("Post id") }),
+        query: z.object({ draft: z.boolean().optional() }),
+        body: z.object({ title: z.string(), tags: z.array(z.string()) }),
+      }),
+      (req, res) => {
+        res.json({});
+      },
+    );
+
+    const document = generateOpenApi(app, { info });
+
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual(info);
+    expect(document.paths["/posts/{id}"].put).toEqual({
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          description: "Post id",
+          schema: { type: "string" },
+        },
+        {
+          name: "draft",
+          in: "query",
+          required: false,
+          schema: { type: "boolean" },
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                tags: { type: "array", items: { type: "string" } },
+              },
+              required: ["title", "tags"],
+            },
+          },
+        },
+      },
+      responses: { default: { description: "Default response" } },
+    });
+  });
+
+  it("should merge chained validators and response schemas", () => {
+    app.post(
+      "/users",
+      validateHeaders(z.object({ authorization: z.string() })),
+      validateBody(z.object({ name: z.string() })),
+      validateResponse({
+        201: z.object({ id: z.number() }),
+        default: z.object({ message: z.string() }),
+      }),
+      (req, res) => {
+        res.status(201).json({ id: 1 });
+      },
+    );
+
+    const operation = generateOpenApi(app, { info }).paths["/users"].post;
+
+    expect(operation.parameters).toEqual([
+      {
+        name: "authorization",
+        in: "header",
+        required: true,
+        schema: { type: "string" },
+      },
+    ]);
+    expect(operation.requestBody?.required).toBe(true);
+    expect(Object.keys(operation.responses)).toEqual(["201", "default"]);
+    expect(
+      operation.responses["201"].content?.["application/json"].schema,
+    ).toMatchObject({ properties: { id: { type: "number" } } });
+  });
+
+  it("should describe optional bodies with async refinements", () => {
+    app.post(
+      "/notes",
+      validateBody(
+        z
+          .object({ text: z.string() })
+          .optional()
+          .refine(async () => true),
+      ),
+    );
+    app.put(
+      "/notes",
+      validateBody(z.object({ text: z.string() }).default({ text: "" })),
+    );
+
+    const { paths } = generateOpenApi(app, { info });
+
+    expect(paths["/notes"].post!.requestBody?.required).toBe(false);
+    expect(paths["/notes"].put!.requestBody?.required).toBe(false);
+  });
+
+  it("should describe bodies keyed by media type", () => {
+    app.post(
+      "/notes",
+      validateContent({
+        "application/json": z.object({ text: z.string() }),
+        "text/plain": z.string(),
+      }),
+    );
+
+    const operation = generateOpenApi(app, { info }).paths["/notes"].post;
+
+    expect(operation.requestBody?.content).toEqual({
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: { text: { type: "string" } },
+          required: ["text"],
+        },
+      },
+      "text/plain": { schema: { type: "string" } },
+    });
+  });
+
+  it("should skip routes without validation", () => {
+    app.get("/health", (req, res) => {
+      res.json({ ok: true });
+    });
+    app.get("/items", validate({ query: z.object({ page: z.string() }) }));
+
+    const document = generateOpenApi(app, { info });
+
+    expect(Object.keys(document.paths)).toEqual(["/items"]);
+  });
+
+  it("should walk routers mounted at the root and configured mounts", () => {
+    const root = Router();
+    root.get("/status", validateHeaders(z.object({ "x-id": z.string() })));
+
+    const api = Router();
+    api.post("/users", validateBody(z.object({ name: z.string() })));
+
+    const unknown = Router();
+    unknown.get("/secret", validateBody(z.object({ name: z.string() })));
+
+    app.use(root);
+    app.use("/api", api);
+    app.use("/hidden", unknown);
+
+    const document = generateOpenApi(app, { info, mounts: [["/api", api]] });
+
+    expect(Object.keys(document.paths).sort()).toEqual([
+      "/api/users",
+      "/status",
+    ]);
+  });
+
+  it("should serve the document", async () => {
+    app.get("/openapi.json", serveOpenApi(app, { info }));
+    app.get(
+      "/files/*path",
+      validate({ params: z.object({ path: z.array(z.string()) }) }),
+    );
+
+    const response = await request(app).get("/openapi.json");
+
+    expect(response.status).toBe(200);
+    expect(response.body.paths["/files/{path}"].get.parameters[0]).toEqual(
+      expect.objectContaining({ name: "path", in: "path", required: true }),
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validateBody,
+  validateHeaders,
+  validationErrorHandler,
+  type ValidationKey,
+  type ValidationOptions,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("redaction", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  /** Responds with the stored issues of `part` */
+  const issuesOf =
+    (part: ValidationKey) =>
+    (req: ValidationRequest, res: express.Response) => {
+      res.json(req.validationErrors?.[part]?.issues ?? []);
+    };
+
+  it("should redact the authorization header by default", async () => {
+    app.get(
+      "/",
+      validateHeaders(
+        z.object({ authorization: z.string().startsWith("Bearer ") }),
+        { reportInput: true },
+      ),
+      issuesOf("headers"),
+    );
+
+    const response = await request(app)
+      .get("/")
+      .set("Authorization", "Basic c2VjcmV0");
+
+    expect(response.body[0].input).toBe("[REDACTED]");
+    expect(JSON.stringify(response.body)).not.toContain("c2VjcmV0");
+  });
+
+  it("should redact cookies from issues on the whole headers object", async () => {
+    app.get(
+      "/",
+      validateHeaders(
+        z
+          .looseObject({ "x-tenant": z.string() })
+          .refine(() => false, "Invalid"),
+        { reportInput: true },
+      ),
+      issuesOf("headers"),
+    );
+
+    const response = await request(app)
+      .get("/")
+      .set("Cookie", "session=abc123")
+      .set("X-Tenant", "acme");
+
+    expect(response.body[0].input.cookie).toBe("[REDACTED]");
+    expect(response.body[0].input["x-tenant"]).toBe("acme");
+  });
+
+  it("should redact schemas marked as sensitive", async () => {
+    const schema = z.object({
+      email: z.email(),
+      password: z
+        .string()
+        .min(12, { error: (issue) => `${issue.input} is too short` })
+        .meta({ sensitive: true }),
+    });
+
+    app.post(
+      "/users",
+      validateBody(schema, { reportInput: true }),
+      issuesOf("body"),
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({ email: "invalid", password: "hunter2" });
+
+    const [emailIssue, passwordIssue] = response.body;
+    expect(emailIssue.input).toBe("invalid");
+    expect(passwordIssue.input).toBe("[REDACTED]");
+    expect(passwordIssue.message).toBe("[REDACTED] is too short");
+  });
+
+  it("should keep built-in messages and scrub whole values only", async () => {
+    const schema = z.object({
+      password: z.string().min(8).meta({ sensitive: true }),
+      pin: z.number().min(10).meta({ sensitive: true }),
+      code: z
+        .string()
+        .refine(() => false, { error: (issue) => `e${issue.input} or e` })
+        .meta({ sensitive: true }),
+    });
+
+    app.post("/", validateBody(schema), issuesOf("body"));
+
+    const response = await request(app)
+      .post("/")
+      .send({ password: "e", pin: 1, code: "e" });
+
+    expect(
+      response.body.map((issue: z.core.$ZodIssue) => issue.message),
+    ).toEqual([
+      "Too small: expected string to have >=8 characters",
+      "Too small: expected number to be >=10",
+      "ee or [REDACTED]",
+    ]);
+  });
+
+  it("should redact sensitive values nested in a reported input", async () => {
+    const schema = z
+      .object({
+        password: z.string().meta({ sensitive: true }),
+        confirmation: z.string().meta({ sensitive: true }),
+      })
+      .refine((data) => data.password === data.confirmation, "No match");
+
+    app.post(
+      "/users",
+      validateBody(schema, { reportInput: true }),
+      issuesOf("body"),
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({ password: "hunter2", confirmation: "hunter3" });
+
+    expect(response.body[0].input).toEqual({
+      password: "[REDACTED]",
+      confirmation: "[REDACTED]",
+    });
+  });
+
+  it("should redact configured paths with wildcards", async () => {
+    const options: ValidationOptions = {
+      reportInput: true,
+      redact: { paths: { body: ["cards.*.number"] }, censor: "***" },
+    };
+
+    app.post(
+      "/payments",
+      validateBody(
+        z.object({
+          cards: z.array(z.object({ number: z.string().length(16) })),
+        }),
+        options,
+      ),
+      issuesOf("body"),
+    );
+
+    const response = await request(app)
+      .post("/payments")
+      .send({ cards: [{ number: "4111111111111111" }, { number: "4111" }] });
+
+    expect(response.body[0].path).toEqual(["cards", 1, "number"]);
+    expect(response.body[0].input).toBe("***");
+  });
+
+  it("should redact values inside union issues", async () => {
+    const schema = z.object({
+      credentials: z.union([
+        z.object({ token: z.string().min(40).meta({ sensitive: true }) }),
+        z.object({ apiKey: z.uuid() }),
+      ]),
+    });
+
+    app.post(
+      "/login",
+      validateBody(schema, { reportInput: true }),
+      issuesOf("body"),
+    );
+
+    const response = await request(app)
+      .post("/login")
+      .send({ credentials: { token: "short-secret" } });
+
+    expect(JSON.stringify(response.body)).not.toContain("short-secret");
+  });
+
+  it("should redact thrown errors", async () => {
+    app.post(
+      "/users",
+      validateBody(
+        z.object({
+          password: z
+            .string()
+            .refine((value) => value.length > 8, {
+              error: (issue) => `"${issue.input}" is too weak`,
+            })
+            .meta({ sensitive: true }),
+        }),
+        { throwErrors: true },
+      ),
+      (req, res) => {
+        res.json({ success: true });
+      },
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/users")
+      .send({ password: "hunter2" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors[0].message).toBe('"[REDACTED]" is too weak');
+  });
+
+  it("should keep values when redaction is disabled", async () => {
+    app.get(
+      "/",
+      validateHeaders(
+        z.object({ authorization: z.string().startsWith("Bearer ") }),
+        { reportInput: true, redact: false },
+      ),
+      issuesOf("headers"),
+    );
+
+    const response = await request(app)
+      .get("/")
+      .set("Authorization", "Basic c2VjcmV0");
+
+    expect(response.body[0].input).toBe("Basic c2VjcmV0");
+  });
+});
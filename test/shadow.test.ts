@@ -0,0 +1,317 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  validate,
+  validateBody,
+  validationErrorHandler,
+  type ShadowReport,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("shadow validation", () => {
+  let app: Express;
+  let reports: ShadowReport[];
+  const sink = (report: ShadowReport) => {
+    reports.push(report);
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    reports = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const respond = (req: ValidationRequest, res: express.Response) => {
+    res.json({
+      errors: Object.keys(req.validationErrors ?? {}),
+      values: req.validationValues ?? {},
+      body: req.body,
+    });
+  };
+
+  it("should report failures without changing the request", async () => {
+    app.post(
+      "/users",
+      validateBody(z.object({ email: z.email() }), {
+        throwErrors: true,
+        overwriteRequest: true,
+        shadow: { sink },
+      }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({ email: "ada", name: "Ada" });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      errors: [],
+      values: {},
+      body: { email: "ada", name: "Ada" },
+    });
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toEqual(
+      expect.objectContaining({
+        method: "POST",
+        route: "/users",
+        mode: "report",
+        disagreements: [],
+      }),
+    );
+    expect(reports[0].errors.body!.issues[0].path).toEqual(["email"]);
+  });
+
+  it("should not report valid requests", async () => {
+    app.post(
+      "/",
+      validateBody(z.object({ email: z.email() }), { shadow: { sink } }),
+      respond,
+    );
+
+    await request(app).post("/").send({ email: "ada@example.com" });
+
+    expect(reports).toEqual([]);
+  });
+
+  it("should apply to every route when configured globally", async () => {
+    app.use(expressZodValidations({ shadow: { sink } }));
+    app.post("/", validateBody(z.object({ name: z.string() })), respond);
+
+    const response = await request(app).post("/").send({});
+
+    expect(response.body.errors).toEqual([]);
+    expect(reports[0].errors.body).toBeDefined();
+  });
+
+  it("should only validate the sampled requests", async () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0.2).mockReturnValue(0.8);
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }), {
+        shadow: { sink, sampleRate: 0.5 },
+      }),
+      respond,
+    );
+
+    await request(app).post("/").send({});
+    await request(app).post("/").send({});
+
+    expect(reports).toHaveLength(1);
+  });
+
+  it("should ignore the errors of the sink", async () => {
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }), {
+        shadow: {
+          sink: () => {
+            throw new Error("Sink unavailable");
+          },
+        },
+      }),
+      respond,
+    );
+
+    const response = await request(app).post("/").send({});
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should not apply to the routes opting out", async () => {
+    app.use(expressZodValidations({ shadow: { sink } }));
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }), { shadow: false }),
+      respond,
+    );
+
+    const response = await request(app).post("/").send({});
+
+    expect(response.body.errors).toEqual(["body"]);
+    expect(reports).toEqual([]);
+  });
+
+  it("should not call hooks from report-only runs", async () => {
+    const onComplete = vi.fn();
+    app.use(expressZodValidations({ onComplete }));
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }), { shadow: { sink } }),
+      respond,
+    );
+
+    await request(app).post("/").send({});
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  describe("compare", () => {
+    const current = {
+      body: z.object({ name: z.string(), age: z.number().optional() }),
+    };
+    const next = {
+      body: z.object({ name: z.string().min(2), age: z.number().int() }),
+      headers: z.object({ "x-client": z.string() }),
+    };
+
+    beforeEach(() => {
+      app.post(
+        "/users",
+        validate(current, { shadow: { sink, compare: next } }),
+        respond,
+      );
+    });
+
+    it("should enforce the route schemas", async () => {
+      const response = await request(app)
+        .post("/users")
+        .set("X-Client", "web")
+        .send({ name: "A" });
+
+      expect(response.body.errors).toEqual([]);
+      expect(response.body.values.body).toEqual({ name: "A" });
+    });
+
+    it("should report the parts only the compared schemas reject", async () => {
+      await request(app).post("/users").send({ name: "A" });
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0].mode).toBe("compare");
+      expect(
+        reports[0].disagreements.map(({ part, kind, issues }) => ({
+          part,
+          kind,
+          paths: issues.map((issue) => issue.path),
+        })),
+      ).toEqual([
+        { part: "body", kind: "rejected", paths: [["name"], ["age"]] },
+        { part: "headers", kind: "rejected", paths: [["x-client"]] },
+      ]);
+    });
+
+    it("should not report requests on which both schemas agree", async () => {
+      await request(app)
+        .post("/users")
+        .set("X-Client", "web")
+        .send({ name: "Ada", age: 36, extra: true });
+      await request(app)
+        .post("/users")
+        .set("X-Client", "web")
+        .send({ name: 1, age: 36 });
+
+      expect(reports).toEqual([]);
+    });
+  });
+
+  it("should run the route schemas once per compared request", async () => {
+    const refine = vi.fn(() => true);
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }).refine(refine), {
+        shadow: { sink, compare: { body: z.object({ name: z.email() }) } },
+      }),
+      respond,
+    );
+
+    await request(app).post("/").send({ name: "Ada" });
+
+    expect(refine).toHaveBeenCalledTimes(1);
+    expect(reports[0].disagreements).toEqual([
+      expect.objectContaining({ part: "body", kind: "rejected" }),
+    ]);
+  });
+
+  it("should compare the parts as they were before being overwritten", async () => {
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string().trim() }), {
+        overwriteRequest: true,
+        shadow: { sink, compare: { body: z.object({ name: z.string() }) } },
+      }),
+      respond,
+    );
+
+    const response = await request(app).post("/").send({ name: " Ada " });
+
+    expect(response.body.body).toEqual({ name: "Ada" });
+    expect(reports[0].disagreements).toEqual([
+      { part: "body", kind: "output", issues: [] },
+    ]);
+  });
+
+  it("should not compare the parts the route did not validate", async () => {
+    app.post(
+      "/",
+      validate(
+        {
+          headers: z.object({ "x-client": z.string() }),
+          body: z.object({ name: z.string() }),
+        },
+        {
+          throwErrors: true,
+          shadow: {
+            sink,
+            compare: {
+              headers: z.object({ "x-client": z.string() }),
+              body: z.object({ name: z.email() }),
+            },
+          },
+        },
+      ),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app).post("/").send({ name: "Ada" });
+
+    expect(response.status).toBe(400);
+    expect(reports).toEqual([]);
+  });
+
+  it("should report different parsed values", async () => {
+    app.post(
+      "/",
+      validateBody(z.object({ name: z.string() }), {
+        shadow: {
+          sink,
+          compare: { body: z.object({ name: z.string().trim() }) },
+        },
+      }),
+      respond,
+    );
+
+    await request(app).post("/").send({ name: " Ada " });
+
+    expect(reports[0].disagreements).toEqual([
+      { part: "body", kind: "output", issues: [] },
+    ]);
+  });
+
+  it("should report the parts only the route schemas reject", async () => {
+    app.post(
+      "/",
+      validateBody(z.object({ age: z.number() }), {
+        shadow: {
+          sink,
+          compare: { body: z.object({ age: z.coerce.number() }) },
+        },
+      }),
+      respond,
+    );
+
+    const response = await request(app).post("/").send({ age: "36" });
+
+    expect(response.body.errors).toEqual(["body"]);
+    expect(reports[0].disagreements).toEqual([
+      expect.objectContaining({ part: "body", kind: "accepted" }),
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validate,
+  validateBody,
+  validateContent,
+  validateQuery,
+  ValidationError,
+} from "../src/index";
+import {
+  createRequest,
+  generateInvalidInputs,
+  generateInvalidRequests,
+  generateValidInput,
+  generateValidRequest,
+  runValidation,
+} from "../src/testing";
+
+describe("testing utilities", () => {
+  const userSchema = z.object({
+    email: z.email(),
+    name: z.string().min(2).max(20),
+    age: z.number().int().min(18).optional(),
+    role: z.enum(["admin", "member"]),
+    tags: z.array(z.string()).max(3),
+    token: z.string().startsWith("tok_"),
+  });
+
+  describe("runValidation", () => {
+    it("should return the validated values without Express", async () => {
+      const result = await runValidation(
+        validateQuery(z.object({ page: z.coerce.number() })),
+        { query: { page: "2" } },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.values.query).toEqual({ page: 2 });
+      expect(result.errors).toEqual({});
+    });
+
+    it("should return the validation errors", async () => {
+      const result = await runValidation(validateBody(userSchema), {
+        body: { email: "invalid" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors.body?.issues.length).toBeGreaterThan(0);
+      expect(result.values.body).toBeUndefined();
+    });
+
+    it("should return the error forwarded to next", async () => {
+      const result = await runValidation(
+        validateBody(userSchema, { throwErrors: true }),
+        { body: {} },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(ValidationError);
+    });
+
+    it("should apply the configs of expressZodValidations", async () => {
+      const result = await runValidation(
+        validate({ headers: z.object({ "x-page": z.number() }) }),
+        {
+          headers: { "X-Page": "3" },
+          validationConfigs: { coerce: true },
+        },
+      );
+
+      expect(result.values.headers).toEqual({ "x-page": 3 });
+    });
+
+    it("should pick the body schema from the content type", async () => {
+      const middleware = validateContent({
+        "application/json": z.object({ count: z.number() }),
+        "application/x-www-form-urlencoded": z.object({ count: z.number() }),
+      });
+
+      const result = await runValidation(middleware, {
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: { count: "4" },
+      });
+
+      expect(result.values.body).toEqual({ count: 4 });
+    });
+  });
+
+  describe("createRequest", () => {
+    it("should expose headers case-insensitively", () => {
+      const req = createRequest({ headers: { Authorization: "Bearer token" } });
+
+      expect(req.get("authorization")).toBe("Bearer token");
+      expect(req.headers.authorization).toBe("Bearer token");
+    });
+
+    it("should match content types like Express", () => {
+      const req = createRequest({
+        headers: { "content-type": "application/merge-patch+json" },
+        body: {},
+      });
+
+      expect(req.is("json")).toBe(false);
+      expect(req.is("+json")).toBe("application/merge-patch+json");
+      expect(createRequest().is("json")).toBeNull();
+    });
+  });
+
+  describe("generateValidInput", () => {
+    it("should generate inputs accepted by the schema", () => {
+      for (let seed = 1; seed <= 50; seed++) {
+        const input = generateValidInput(userSchema, { seed });
+        expect(userSchema.safeParse(input).success).toBe(true);
+      }
+    });
+
+    it("should be deterministic for a seed", () => {
+      expect(generateValidInput(userSchema, { seed: 7 })).toEqual(
+        generateValidInput(userSchema, { seed: 7 }),
+      );
+    });
+
+    it("should support nested, recursive and non-JSON schemas", () => {
+      interface Category {
+        name: string;
+        children: Category[];
+      }
+      const category: z.ZodType<Category> = z.lazy(() =>
+        z.object({ name: z.string(), children: z.array(category) }),
+      );
+      const schema = z.object({
+        id: z.uuid(),
+        createdAt: z.date(),
+        size: z.bigint().min(10n),
+        category,
+        coordinates: z.tuple([z.number(), z.number()]),
+        labels: z.record(z.enum(["en", "fr"]), z.string()),
+        slug: z.templateLiteral(["post-", z.number().int()]),
+        status: z.union([z.literal("draft"), z.literal("live")]),
+      });
+
+      for (let seed = 1; seed <= 20; seed++) {
+        expect(
+          schema.safeParse(generateValidInput(schema, { seed })).success,
+        ).toBe(true);
+      }
+    });
+
+    it("should throw when no valid input can be found", () => {
+      const schema = z.string().refine(() => false, "Never valid");
+
+      expect(() => generateValidInput(schema)).toThrow("Never valid");
+    });
+  });
+
+  describe("generateInvalidInputs", () => {
+    it("should generate inputs rejected by the schema", () => {
+      const samples = generateInvalidInputs(userSchema);
+
+      expect(samples.length).toBeGreaterThan(0);
+      for (const { input } of samples) {
+        expect(userSchema.safeParse(input).success).toBe(false);
+      }
+    });
+
+    it("should break one rule at a time", () => {
+      const samples = generateInvalidInputs(userSchema);
+
+      expect(samples).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: ["email"], reason: "missing" }),
+          expect.objectContaining({ path: ["email"], reason: "constraint" }),
+          expect.objectContaining({ path: ["name"], reason: "type" }),
+          expect.objectContaining({ path: ["age"], reason: "constraint" }),
+          expect.objectContaining({ path: ["tags"], reason: "constraint" }),
+        ]),
+      );
+      expect(samples).not.toContainEqual(
+        expect.objectContaining({ path: ["age"], reason: "missing" }),
+      );
+    });
+
+    it("should report unknown keys of strict objects", () => {
+      const samples = generateInvalidInputs(
+        z.strictObject({ name: z.string() }),
+      );
+
+      expect(samples).toContainEqual(
+        expect.objectContaining({
+          path: ["__unexpected__"],
+          reason: "unknown_key",
+        }),
+      );
+    });
+  });
+
+  describe("request samples", () => {
+    const middleware = validate({
+      params: z.object({ id: z.coerce.number().int().positive() }),
+      body: userSchema,
+    });
+
+    it("should pass a route for generated valid requests", async () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const result = await runValidation(
+          middleware,
+          generateValidRequest(middleware.schemas, { seed }),
+        );
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("should fail a route for every generated invalid request", async () => {
+      const samples = generateInvalidRequests(middleware.schemas);
+
+      expect(samples.some(({ part }) => part === "params")).toBe(true);
+      for (const { part, request } of samples) {
+        const result = await runValidation(middleware, request);
+        expect(Object.keys(result.errors)).toEqual([part]);
+      }
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  unflatten,
+  validateContent,
+  validationErrorHandler,
+  type ValidationRequest,
+} from "../src/index";
+
+const userSchema = z.object({
+  name: z.string(),
+  age: z.number(),
+  newsletter: z.boolean(),
+  address: z.object({ city: z.string() }),
+  tags: z.array(z.string()),
+});
+
+describe("validateContent", () => {
+  let app: Express;
+
+  const respond = (req: ValidationRequest, res: any) => {
+    if (req.validationErrors?.body) {
+      return res.status(400).json({ issues: req.validationErrors.body.issues });
+    }
+    res.json(req.validationValues?.body);
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    app.use(express.text());
+  });
+
+  it("should validate JSON bodies as is", async () => {
+    app.post(
+      "/users",
+      validateContent({
+        "application/json": userSchema,
+        "application/x-www-form-urlencoded": userSchema,
+      }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({
+        name: "John",
+        age: 30,
+        newsletter: true,
+        address: { city: "Rome" },
+        tags: ["a"],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.age).toBe(30);
+  });
+
+  it("should unflatten and coerce urlencoded bodies", async () => {
+    app.post(
+      "/users",
+      validateContent({
+        "application/json": userSchema,
+        "application/x-www-form-urlencoded": userSchema,
+      }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .type("form")
+      .send("name=John&age=30&newsletter=true&address[city]=Rome&tags[]=a");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      name: "John",
+      age: 30,
+      newsletter: true,
+      address: { city: "Rome" },
+      tags: ["a"],
+    });
+  });
+
+  it("should not coerce JSON bodies", async () => {
+    app.post(
+      "/users",
+      validateContent({ "application/json": userSchema }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({
+        name: "John",
+        age: "30",
+        newsletter: true,
+        address: { city: "Rome" },
+        tags: [],
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.issues[0].path).toEqual(["age"]);
+  });
+
+  it("should validate text bodies", async () => {
+    app.post(
+      "/notes",
+      validateContent({ "text/*": z.string().max(5) }),
+      respond,
+    );
+
+    const valid = await request(app)
+      .post("/notes")
+      .type("text/plain")
+      .send("hello");
+    const invalid = await request(app)
+      .post("/notes")
+      .type("text/plain")
+      .send("hello world");
+
+    expect(valid.status).toBe(200);
+    expect(valid.body).toBe("hello");
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should record unsupported content types under body", async () => {
+    app.post(
+      "/users",
+      validateContent({ "application/json": userSchema }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .type("text/plain")
+      .send("John");
+
+    expect(response.status).toBe(400);
+    expect(response.body.issues).toEqual([
+      expect.objectContaining({
+        code: "custom",
+        message:
+          'Unsupported content type "text/plain", expected one of: application/json',
+        params: { status: 415, supported: ["application/json"] },
+      }),
+    ]);
+  });
+
+  it("should reject large form indices without allocating them", async () => {
+    app.post(
+      "/users",
+      validateContent({ "application/x-www-form-urlencoded": userSchema }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .type("form")
+      .send("tags[20000000]=x");
+
+    expect(response.status).toBe(400);
+    expect(response.body.issues).toContainEqual(
+      expect.objectContaining({ path: ["tags", 0], code: "invalid_type" }),
+    );
+  });
+
+  it("should respond 415 through the error handler", async () => {
+    app.use(expressZodValidations({ throwErrors: true }));
+    app.post(
+      "/users",
+      validateContent({ "application/json": userSchema }),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/users")
+      .type("text/plain")
+      .send("John");
+
+    expect(response.status).toBe(415);
+    expect(response.body.errors[0].part).toBe("body");
+  });
+});
+
+describe("unflatten", () => {
+  it("should nest bracket-notation keys", () => {
+    expect(
+      unflatten({
+        "user[name]": "John",
+        "items[0][id]": "1",
+        "items[1][id]": "2",
+        "tags[]": ["a", "b"],
+        plain: "x",
+      }),
+    ).toEqual({
+      user: { name: "John" },
+      items: [{ id: "1" }, { id: "2" }],
+      tags: ["a", "b"],
+      plain: "x",
+    });
+  });
+
+  it("should read large indices as object keys", () => {
+    expect(unflatten({ "tags[20000000]": "x" })).toEqual({
+      tags: { "20000000": "x" },
+    });
+    expect(unflatten({ "tags[0]": "a", "tags[20000000]": "x" })).toEqual({
+      tags: { "0": "a", "20000000": "x" },
+    });
+    expect(unflatten({ "tags[0]": "a", "tags[1]": "b" })).toEqual({
+      tags: ["a", "b"],
+    });
+  });
+
+  it("should ignore prototype keys", () => {
+    const result = unflatten({ "__proto__[polluted]": "yes", safe: "1" });
+
+    expect(result).toEqual({ safe: "1" });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
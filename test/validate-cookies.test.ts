@@ -0,0 +1,94 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validateCookies,
+  validateSignedCookies,
+  type ValidatedRequest,
+  type ValidationRequest,
+} from "../src/index";
+
+// Minimal stand-in for cookie-parser
+const parseCookies = (req: any, _: any, next: any) => {
+  const header: string = req.headers.cookie ?? "";
+  req.cookies = {};
+  req.signedCookies = {};
+  for (const pair of header.split(";").filter(Boolean)) {
+    const [name, value] = pair.trim().split("=");
+    if (value.startsWith("s:")) req.signedCookies[name] = value.slice(2);
+    else req.cookies[name] = value;
+  }
+  next();
+};
+
+describe("validateCookies", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(parseCookies);
+  });
+
+  it("should validate cookies", async () => {
+    const schema = z.object({ theme: z.enum(["light", "dark"]) });
+
+    app.get(
+      "/test",
+      validateCookies(schema),
+      (req: ValidatedRequest<{ cookies: typeof schema }>, res) => {
+        res.json(req.validationValues?.cookies);
+      },
+    );
+
+    const response = await request(app)
+      .get("/test")
+      .set("Cookie", "theme=dark");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ theme: "dark" });
+  });
+
+  it("should store cookie errors", async () => {
+    const schema = z.object({ session: z.string().min(10) });
+
+    app.get("/test", validateCookies(schema), (req: ValidationRequest, res) => {
+      if (req.validationErrors?.cookies) {
+        return res.status(401).json({ error: "Invalid session" });
+      }
+      res.json({ success: true });
+    });
+
+    const response = await request(app)
+      .get("/test")
+      .set("Cookie", "session=short");
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe("Invalid session");
+  });
+
+  it("should validate signed cookies", async () => {
+    const schema = z.object({ session: z.string().length(6) });
+
+    app.get(
+      "/test",
+      validateSignedCookies(schema),
+      (req: ValidationRequest, res) => {
+        res.json({
+          values: req.validationValues?.signedCookies,
+          error: !!req.validationErrors?.signedCookies,
+        });
+      },
+    );
+
+    const response = await request(app)
+      .get("/test")
+      .set("Cookie", "session=s:abc123");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      values: { session: "abc123" },
+      error: false,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validateFile,
+  validateFiles,
+  type ValidationRequest,
+} from "../src/index";
+
+const uploadedFile = z.object({
+  fieldname: z.string(),
+  originalname: z.string(),
+  mimetype: z.enum(["image/png", "image/jpeg"]),
+  size: z.number().max(1024),
+});
+
+const file = (originalname: string, mimetype: string, size: number) => ({
+  fieldname: "avatar",
+  originalname,
+  mimetype,
+  size,
+});
+
+describe("validateFiles", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+  });
+
+  it("should validate a single uploaded file", async () => {
+    // Stand-in for multer's upload.single()
+    app.post(
+      "/avatar",
+      (req: any, res, next) => {
+        req.file = file("me.png", "image/png", 512);
+        next();
+      },
+      validateFile(uploadedFile),
+      (req: ValidationRequest, res) => {
+        res.json(req.validationValues?.file);
+      },
+    );
+
+    const response = await request(app).post("/avatar");
+
+    expect(response.status).toBe(200);
+    expect(response.body.originalname).toBe("me.png");
+  });
+
+  it("should store errors for invalid uploaded files", async () => {
+    // Stand-in for multer's upload.array()
+    app.post(
+      "/gallery",
+      (req: any, res, next) => {
+        req.files = [
+          file("a.png", "image/png", 100),
+          file("b.gif", "image/gif", 4096),
+        ];
+        next();
+      },
+      validateFiles(z.array(uploadedFile).max(5)),
+      (req: ValidationRequest, res) => {
+        if (req.validationErrors?.files) {
+          return res.status(400).json({
+            paths: req.validationErrors.files.issues.map((i) => i.path),
+          });
+        }
+        res.json({ success: true });
+      },
+    );
+
+    const response = await request(app).post("/gallery");
+
+    expect(response.status).toBe(400);
+    expect(response.body.paths).toEqual([
+      [1, "mimetype"],
+      [1, "size"],
+    ]);
+  });
+
+  it("should fail when no file was uploaded", async () => {
+    app.post(
+      "/avatar",
+      validateFile(uploadedFile),
+      (req: ValidationRequest, res) => {
+        res.json({ missing: !!req.validationErrors?.file });
+      },
+    );
+
+    const response = await request(app).post("/avatar");
+
+    expect(response.body.missing).toBe(true);
+  });
+});
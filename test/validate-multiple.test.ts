@@ -1,14 +1,23 @@
 import express, { Express } from "express";
 import request from "supertest";
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest";
 import { z } from "zod";
 import {
   validate,
   validateBody,
   validateHeaders,
+  validateParams,
+  type ValidatedRequest,
+  type ValidatedRequestOf,
   type ValidationRequest,
 } from "../src/index";
 
+declare module "../src/index" {
+  interface ValidationParts {
+    user: true;
+  }
+}
+
 describe("validate multiple parts", () => {
   let app: Express;
 
@@ -25,14 +34,18 @@ describe("validate multiple parts", () => {
         headers: z.object({ "content-type": z.string() }),
       };
 
-      app.put("/posts/:id", validate(schema), (req: ValidationRequest, res) => {
-        const { params, body, headers } = req.validationValues || {};
-        res.json({
-          params,
-          body,
-          contentType: (headers as any)?.["content-type"],
-        });
-      });
+      app.put(
+        "/posts/:id",
+        validate(schema),
+        (req: ValidatedRequest<typeof schema>, res) => {
+          const { params, body, headers } = req.validationValues || {};
+          res.json({
+            params,
+            body,
+            contentType: headers?.["content-type"],
+          });
+        },
+      );
 
       const response = await request(app)
         .put("/posts/123456789012345678901234")
@@ -81,6 +94,34 @@ describe("validate multiple parts", () => {
     });
   });
 
+  describe("custom request parts", () => {
+    it("should validate properties set by earlier middlewares", async () => {
+      const schema = {
+        user: z.object({ role: z.enum(["admin", "member"]) }),
+      };
+
+      app.get(
+        "/admin",
+        (req: any, res, next) => {
+          req.user = { id: 1, role: "guest" };
+          next();
+        },
+        validate(schema),
+        (req: ValidatedRequest<typeof schema>, res) => {
+          if (req.validationErrors?.user) {
+            return res.status(403).json({ error: "Forbidden" });
+          }
+          res.json(req.validationValues?.user);
+        },
+      );
+
+      const response = await request(app).get("/admin");
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe("Forbidden");
+    });
+  });
+
   describe("chained validators", () => {
     it("should chain multiple validation middlewares", async () => {
       const headerSchema = z.object({
@@ -91,16 +132,22 @@ describe("validate multiple parts", () => {
         name: z.string(),
       });
 
+      const validateAuth = validateHeaders(headerSchema);
+      const validateName = validateBody(bodySchema);
+
       app.post(
         "/test",
-        validateHeaders(headerSchema),
-        validateBody(bodySchema),
-        (req: ValidationRequest, res) => {
+        validateAuth,
+        validateName,
+        (
+          req: ValidatedRequestOf<typeof validateAuth | typeof validateName>,
+          res,
+        ) => {
           if (req.validationErrors?.headers || req.validationErrors?.body) {
             return res.status(400).json({ error: "Validation failed" });
           }
           res.json({
-            header: req.validationValues?.headers,
+            header: req.validationValues?.headers.authorization,
             body: req.validationValues?.body,
           });
         },
@@ -113,7 +160,90 @@ describe("validate multiple parts", () => {
 
       expect(response.status).toBe(200);
       expect(response.body.body).toEqual({ name: "John" });
-      expect(response.body.header).toHaveProperty("authorization");
+      expect(response.body.header).toBe("Bearer token");
+    });
+
+    it("should type the parts of the next handlers", async () => {
+      app.put(
+        "/posts/:id",
+        validate(
+          {
+            params: z.object({ id: z.coerce.number() }),
+            query: z.object({ draft: z.stringbool().optional() }),
+          },
+          { overwriteRequest: true, throwErrors: true },
+        ),
+        validateBody(z.object({ title: z.string() }), {
+          overwriteRequest: true,
+          throwErrors: true,
+        }),
+        (req, res) => {
+          expectTypeOf(req.params).toEqualTypeOf<{ id: number }>();
+          expectTypeOf(req.query).toEqualTypeOf<{ draft?: boolean }>();
+          expectTypeOf(req.body).toEqualTypeOf<{ title: string }>();
+          res.json({ id: req.params.id, draft: req.query.draft });
+        },
+      );
+
+      const response = await request(app)
+        .put("/posts/1?draft=true")
+        .send({ title: "Hello" });
+
+      expect(response.body).toEqual({ id: 1, draft: true });
+    });
+
+    it("should not type the parts the options do not enforce", () => {
+      const params = z.object({ id: z.coerce.number() });
+
+      app.get("/lenient/:id", validateParams(params), (req, res) => {
+        expectTypeOf(req.params).toBeAny();
+        res.end();
+      });
+      app.get(
+        "/kept/:id",
+        validateParams(params, { throwErrors: true }),
+        (req, res) => {
+          expectTypeOf(req.params).toBeAny();
+          res.end();
+        },
+      );
+      app.get(
+        "/per-part/:id",
+        validateParams(params, {
+          throwErrors: true,
+          overwriteRequest: { params: true },
+        }),
+        (req, res) => {
+          expectTypeOf(req.params).toEqualTypeOf<{ id: number }>();
+          res.end();
+        },
+      );
+    });
+
+    it("should infer the values of every chained middleware", () => {
+      const validateAuth = validateHeaders(
+        z.object({ authorization: z.string() }),
+      );
+      const validateName = validateBody(
+        z.object({ name: z.string().transform((name) => name.length) }),
+      );
+      const validateRole = validate({
+        user: () => z.object({ role: z.enum(["admin", "member"]) }),
+      });
+
+      type Values = NonNullable<
+        ValidatedRequestOf<
+          typeof validateAuth | typeof validateName | typeof validateRole
+        >["validationValues"]
+      >;
+
+      expectTypeOf<Values["headers"]>().toEqualTypeOf<{
+        authorization: string;
+      }>();
+      expectTypeOf<Values["body"]>().toEqualTypeOf<{ name: number }>();
+      expectTypeOf<Values["user"]>().toEqualTypeOf<{
+        role: "admin" | "member";
+      }>();
     });
   });
 });
@@ -21,7 +21,7 @@ describe("validateParams", () => {
       "/users/:id",
       validateParams(schema),
       (req: ValidationRequest, res) => {
-        res.json(req.validationValues.params);
+        res.json(req.validationValues!.params);
       },
     );
 
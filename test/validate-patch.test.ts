@@ -0,0 +1,193 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  generateOpenApi,
+  patchSchema,
+  validateBody,
+  type ValidationRequest,
+} from "../src/index";
+
+const user = z.object({
+  name: z.string().min(1),
+  nickname: z.string().optional(),
+  bio: z.string().nullable(),
+  role: z.enum(["admin", "member"]).default("member"),
+  tags: z.array(z.string()),
+  address: z.object({
+    city: z.string(),
+    zip: z.string().regex(/^\d{5}$/),
+  }),
+});
+
+describe("validateBody with patch", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  const respond = (req: ValidationRequest, res: express.Response) => {
+    res.json({
+      body: req.validationValues?.body,
+      touched: req.validationTouched && [...req.validationTouched],
+      issues: req.validationErrors?.body?.issues,
+    });
+  };
+
+  it("should accept any subset of the fields, nested ones included", async () => {
+    app.patch("/", validateBody(user, { patch: true }), respond);
+
+    const response = await request(app)
+      .patch("/")
+      .send({ address: { city: "Lyon" } });
+
+    expect(response.body).toEqual({
+      body: { address: { city: "Lyon" } },
+      touched: ["address.city"],
+    });
+  });
+
+  it("should still validate the fields that are set", async () => {
+    app.patch("/", validateBody(user, { patch: true }), respond);
+
+    const response = await request(app)
+      .patch("/")
+      .send({ name: "", address: { zip: "abc" } });
+
+    expect(response.body.body).toBeUndefined();
+    expect(
+      response.body.issues.map((issue: z.core.$ZodIssue) => issue.path),
+    ).toEqual([["name"], ["address", "zip"]]);
+  });
+
+  it("should not apply defaults to omitted fields", async () => {
+    app.patch("/", validateBody(user, { patch: true }), respond);
+
+    const response = await request(app).patch("/").send({ name: "Ada" });
+
+    expect(response.body.body).toEqual({ name: "Ada" });
+    expect(response.body.touched).toEqual(["name"]);
+  });
+
+  it("should tell omitted fields apart from fields set to null", async () => {
+    app.patch("/", validateBody(user, { patch: true }), respond);
+
+    const nullable = await request(app).patch("/").send({ bio: null });
+    const required = await request(app).patch("/").send({ name: null });
+    const optional = await request(app).patch("/").send({ nickname: null });
+
+    expect(nullable.body).toEqual({ body: { bio: null }, touched: ["bio"] });
+    expect(required.body.issues[0].path).toEqual(["name"]);
+    expect(optional.body.issues[0].path).toEqual(["nickname"]);
+  });
+
+  it("should accept null for optional fields with nulls: optional", async () => {
+    app.patch(
+      "/",
+      validateBody(user, { patch: { nulls: "optional" } }),
+      respond,
+    );
+
+    const optional = await request(app)
+      .patch("/")
+      .send({ nickname: null, role: null });
+    const required = await request(app).patch("/").send({ name: null });
+
+    expect(optional.body).toEqual({
+      body: { nickname: null, role: null },
+      touched: ["nickname", "role"],
+    });
+    expect(required.body.issues[0].path).toEqual(["name"]);
+  });
+
+  it("should report arrays and replaced objects as a whole", async () => {
+    app.patch("/", validateBody(user, { patch: true }), respond);
+
+    const response = await request(app)
+      .patch("/")
+      .send({ tags: ["a"], address: { city: "Lyon", zip: "69001" } });
+
+    expect(response.body.touched).toEqual([
+      "tags",
+      "address.city",
+      "address.zip",
+    ]);
+  });
+
+  it("should document the partial schema", () => {
+    app.patch("/users/:id", validateBody(user, { patch: true }), respond);
+
+    const document = generateOpenApi(app, {
+      info: { title: "API", version: "1.0.0" },
+    });
+    const body =
+      document.paths["/users/{id}"].patch!.requestBody!.content[
+        "application/json"
+      ].schema;
+
+    expect(body).not.toHaveProperty("required");
+    expect(
+      (body.properties as Record<string, object>).address,
+    ).not.toHaveProperty("required");
+  });
+});
+
+describe("patchSchema", () => {
+  it("should keep the strictness of objects", () => {
+    const schema = patchSchema(z.strictObject({ name: z.string() }));
+
+    expect(schema.safeParse({}).success).toBe(true);
+    expect(schema.safeParse({ other: 1 }).success).toBe(false);
+  });
+
+  it("should rebuild transforms and preprocessing around the copy", () => {
+    const shape = { a: z.string(), b: z.object({ c: z.string() }) };
+    const transformed = patchSchema(
+      z.object(shape).transform((value) => ({ ...value, seen: true })),
+    );
+    const preprocessed = patchSchema(
+      z.preprocess((value) => value ?? {}, z.object(shape)),
+    );
+
+    expect(transformed.parse({})).toEqual({ seen: true });
+    expect(transformed.safeParse({ b: { c: 1 } }).success).toBe(false);
+    expect(preprocessed.parse(null)).toEqual({});
+  });
+
+  it("should throw when the schema holds no object", () => {
+    expect(() => patchSchema(z.array(z.string()))).toThrow(
+      "Cannot derive a partial schema from a schema of type array",
+    );
+  });
+
+  it("should keep the refinements of objects with keepRefinements", () => {
+    const passwords = z
+      .object({ password: z.string(), confirm: z.string() })
+      .refine((value) => value.password === value.confirm);
+
+    const dropped = patchSchema(passwords);
+    const kept = patchSchema(passwords, { keepRefinements: true });
+
+    expect(dropped.safeParse({ password: "a", confirm: "b" }).success).toBe(
+      true,
+    );
+    expect(kept.safeParse({ password: "a", confirm: "b" }).success).toBe(false);
+    expect(kept.safeParse({ password: "a", confirm: "a" }).success).toBe(true);
+  });
+
+  it("should copy recursive schemas", () => {
+    const category = z.object({
+      name: z.string(),
+      get parent(): z.ZodOptional<typeof category> {
+        return category.optional();
+      },
+    });
+
+    const schema = patchSchema(category);
+
+    expect(schema.safeParse({ parent: { name: "Root" } }).success).toBe(true);
+  });
+});
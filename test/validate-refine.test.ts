@@ -0,0 +1,191 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z, type ZodError } from "zod";
+import {
+  validate,
+  validationErrorHandler,
+  type ValidationRequest,
+} from "../src/index";
+
+describe("cross-part validation", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  const params = z.object({ id: z.coerce.number() });
+  const body = z.object({ id: z.number(), version: z.number().optional() });
+  const headers = z.looseObject({ "if-match": z.string().optional() });
+
+  const respond = (req: ValidationRequest, res: express.Response) => {
+    res.json({
+      errors: Object.fromEntries(
+        (
+          Object.entries(req.validationErrors ?? {}) as [string, ZodError][]
+        ).map(([part, error]) => [
+          part,
+          error.issues.map(({ path, message }) => ({ path, message })),
+        ]),
+      ),
+      values: req.validationValues,
+    });
+  };
+
+  const refine = z
+    .object({ params, body, headers })
+    .superRefine(({ params, body, headers }, ctx) => {
+      if (body.id !== params.id) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["body", "id"],
+          message: "Must match the id of the URL",
+        });
+      }
+      if (body.version !== undefined && !headers["if-match"]) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["headers", "if-match"],
+          message: "Required when a version is sent",
+        });
+      }
+    });
+
+  it("should attribute issues to the part starting their path", async () => {
+    app.put("/items/:id", validate({ params, body, headers, refine }), respond);
+
+    const response = await request(app)
+      .put("/items/1")
+      .send({ id: 2, version: 3 });
+
+    expect(response.body.errors).toEqual({
+      body: [{ path: ["id"], message: "Must match the id of the URL" }],
+      headers: [
+        { path: ["if-match"], message: "Required when a version is sent" },
+      ],
+    });
+    expect(response.body.values.params).toEqual({ id: 1 });
+    expect(response.body.values.body).toBeUndefined();
+  });
+
+  it("should keep the values when the rules pass", async () => {
+    app.put("/items/:id", validate({ params, body, headers, refine }), respond);
+
+    const response = await request(app)
+      .put("/items/1")
+      .set("If-Match", '"3"')
+      .send({ id: 1, version: 3 });
+
+    expect(response.body.errors).toEqual({});
+    expect(response.body.values.body).toEqual({ id: 1, version: 3 });
+  });
+
+  it("should not run the rules when a part is invalid", async () => {
+    const check = vi.fn();
+
+    app.put(
+      "/items/:id",
+      validate({ params, body, refine: z.any().superRefine(check) }),
+      respond,
+    );
+
+    const response = await request(app).put("/items/1").send({ id: "2" });
+
+    expect(check).not.toHaveBeenCalled();
+    expect(Object.keys(response.body.errors)).toEqual(["body"]);
+  });
+
+  it("should attribute issues on no part to the first one", async () => {
+    app.put(
+      "/items/:id",
+      validate({
+        params,
+        body,
+        refine: z.any().refine(() => false, "Inconsistent request"),
+      }),
+      respond,
+    );
+
+    const response = await request(app).put("/items/1").send({ id: 1 });
+
+    expect(response.body.errors).toEqual({
+      params: [{ path: [], message: "Inconsistent request" }],
+    });
+  });
+
+  it("should report the parts failing the rules to the hooks", async () => {
+    const onSuccess = vi.fn();
+    const onFailure = vi.fn();
+    const onComplete = vi.fn();
+    app.put(
+      "/items/:id",
+      validate(
+        { params, body, headers, refine },
+        { onSuccess, onFailure, onComplete },
+      ),
+      respond,
+    );
+
+    await request(app).put("/items/1").send({ id: 2 });
+
+    const parts = (hook: typeof onSuccess) =>
+      hook.mock.calls.map(([event]) => event.part);
+    expect(parts(onSuccess)).toEqual(["params", "headers"]);
+    expect(parts(onFailure)).toEqual(["body"]);
+    expect(parts(onComplete)).toEqual(["params", "body", "headers"]);
+    expect(onFailure.mock.calls[0][0].issues).toEqual([
+      expect.objectContaining({ path: ["id"] }),
+    ]);
+  });
+
+  it("should reject rules without parts when declared", () => {
+    expect(() => validate({ refine: z.any() })).toThrow(
+      "refine needs at least one part to validate",
+    );
+  });
+
+  it("should run async rules and forward their errors", async () => {
+    const owners = new Map([[1, "alice"]]);
+
+    app.put(
+      "/items/:id",
+      validate(
+        {
+          params,
+          headers: z.looseObject({ "x-user": z.string() }),
+          refine: z
+            .object({
+              params,
+              headers: z.looseObject({ "x-user": z.string() }),
+            })
+            .refine(
+              async ({ params, headers }) => {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                return owners.get(params.id) === headers["x-user"];
+              },
+              { path: ["headers", "x-user"], message: "Not the owner" },
+            ),
+        },
+        { throwErrors: true, errorMode: "all" },
+      ),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const owner = await request(app).put("/items/1").set("X-User", "alice");
+    const other = await request(app).put("/items/1").set("X-User", "bob");
+
+    expect(owner.status).toBe(200);
+    expect(other.status).toBe(400);
+    expect(other.body.errors).toEqual([
+      {
+        part: "headers",
+        pointer: "/x-user",
+        code: "custom",
+        message: "Not the owner",
+      },
+    ]);
+  });
+});
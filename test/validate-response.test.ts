@@ -0,0 +1,169 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { validateResponse } from "../src/index";
+
+describe("validateResponse", () => {
+  let app: Express;
+
+  const userSchema = z.object({ id: z.number(), name: z.string() });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should strip undeclared fields by default", async () => {
+    app.get("/user", validateResponse(userSchema), (req, res) => {
+      res.json({ id: 1, name: "John", passwordHash: "secret" });
+    });
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 1, name: "John" });
+  });
+
+  it("should validate objects sent through res.send", async () => {
+    app.get("/user", validateResponse(userSchema), (req, res) => {
+      res.send({ id: 1, name: "John", passwordHash: "secret" });
+    });
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 1, name: "John" });
+  });
+
+  it("should validate JSON strings sent through res.send", async () => {
+    app.get("/user", validateResponse(userSchema), (req, res) => {
+      res
+        .type("json")
+        .send(JSON.stringify({ id: 1, name: "John", passwordHash: "secret" }));
+    });
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 1, name: "John" });
+  });
+
+  it("should fail with 500 when the payload is invalid", async () => {
+    const onError = vi.fn();
+
+    app.get("/user", validateResponse(userSchema, { onError }), (req, res) => {
+      res.json({ id: "1", name: "John" });
+    });
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ message: "Response validation failed" });
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0].name).toBe("ZodError");
+  });
+
+  it("should send the original payload in fail mode when valid", async () => {
+    app.get(
+      "/user",
+      validateResponse(userSchema, { mode: "fail" }),
+      (req, res) => {
+        res.json({ id: 1, name: "John", extra: true });
+      },
+    );
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 1, name: "John", extra: true });
+  });
+
+  it("should only report errors in log mode", async () => {
+    const onError = vi.fn();
+
+    app.get(
+      "/user",
+      validateResponse(userSchema, { mode: "log", onError }),
+      (req, res) => {
+        res.json({ id: "1" });
+      },
+    );
+
+    const response = await request(app).get("/user");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: "1" });
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it("should only log errors by default in log mode", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    app.get("/strip", validateResponse(userSchema), (req, res) => {
+      res.json({ id: "1" });
+    });
+    app.get(
+      "/log",
+      validateResponse(userSchema, { mode: "log" }),
+      (req, res) => {
+        res.json({ id: "1" });
+      },
+    );
+
+    const stripped = await request(app).get("/strip");
+    expect(stripped.status).toBe(500);
+    expect(error).not.toHaveBeenCalled();
+
+    await request(app).get("/log");
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it("should pick the schema matching the status code", async () => {
+    const schemas = {
+      200: userSchema,
+      404: z.object({ message: z.string() }),
+    };
+
+    app.get("/user/:id", validateResponse(schemas), (req, res) => {
+      if (req.params.id !== "1") {
+        return res.status(404).json({ message: "Not found", stack: "..." });
+      }
+      res.json({ id: 1, name: "John", passwordHash: "secret" });
+    });
+
+    const found = await request(app).get("/user/1");
+    const missing = await request(app).get("/user/2");
+
+    expect(found.body).toEqual({ id: 1, name: "John" });
+    expect(missing.status).toBe(404);
+    expect(missing.body).toEqual({ message: "Not found" });
+  });
+
+  it("should fall back to the default schema", async () => {
+    const schemas = {
+      200: userSchema,
+      default: z.object({ error: z.string() }),
+    };
+
+    app.get("/fail", validateResponse(schemas), (req, res) => {
+      res.status(503).json({ error: "Unavailable", internal: "db down" });
+    });
+
+    const response = await request(app).get("/fail");
+
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ error: "Unavailable" });
+  });
+
+  it("should leave unmatched status codes untouched", async () => {
+    app.get("/created", validateResponse({ 200: userSchema }), (req, res) => {
+      res.status(201).json({ anything: true });
+    });
+
+    const response = await request(app).get("/created");
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ anything: true });
+  });
+});
@@ -0,0 +1,312 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  validateStream,
+  validationErrorHandler,
+  type StreamRequest,
+} from "../src/index";
+
+const schema = z.object({ name: z.string(), email: z.email() });
+
+const ndjson = (...lines: unknown[]) =>
+  lines
+    .map((line) => (typeof line === "string" ? line : JSON.stringify(line)))
+    .join("\n");
+
+describe("validateStream", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+  });
+
+  const respond = (req: StreamRequest, res: express.Response) => {
+    res.json({
+      values: req.validationValues?.body,
+      issues: req.validationErrors?.body?.issues,
+    });
+  };
+
+  it("should collect the items of an NDJSON body", async () => {
+    app.post("/", validateStream(schema), respond);
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(
+        ndjson({ name: "Ada", email: "ada@example.com" }, "", {
+          name: "Alan",
+          email: "alan@example.com",
+        }),
+      );
+
+    expect(response.body).toEqual({
+      values: [
+        { name: "Ada", email: "ada@example.com" },
+        { name: "Alan", email: "alan@example.com" },
+      ],
+    });
+  });
+
+  it("should collect the items of a JSON array body", async () => {
+    app.post("/", validateStream(schema), respond);
+
+    const response = await request(app)
+      .post("/")
+      .type("json")
+      .send(
+        '[{"name":"Ada, [the first]","email":"ada@example.com"}, {"name":"Alan","email":"alan@example.com"}]',
+      );
+
+    expect(response.body.values).toEqual([
+      { name: "Ada, [the first]", email: "ada@example.com" },
+      { name: "Alan", email: "alan@example.com" },
+    ]);
+  });
+
+  it("should report issues under the index of their item", async () => {
+    app.post("/", validateStream(schema), respond);
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(
+        ndjson(
+          { name: "Ada", email: "ada@example.com" },
+          { name: "Alan", email: "alan" },
+          "{not json",
+        ),
+      );
+
+    expect(response.body.values).toBeUndefined();
+    expect(response.body.issues).toEqual([
+      expect.objectContaining({ path: [1, "email"] }),
+      expect.objectContaining({ path: [2], message: "Invalid JSON" }),
+    ]);
+  });
+
+  it("should stop once more than maxErrors items are invalid", async () => {
+    app.post("/", validateStream(schema, { maxErrors: 1 }), respond);
+
+    const items = Array.from({ length: 50 }, () => ({ name: 1 }));
+    const response = await request(app).post("/").send(items);
+
+    expect(response.body.issues).toHaveLength(5);
+    expect(response.body.issues.at(-1)).toEqual(
+      expect.objectContaining({
+        path: [],
+        message: "Too many invalid items, validation stopped after 2",
+        params: { maxErrors: 1 },
+      }),
+    );
+  });
+
+  it("should reject bodies that are not JSON arrays", async () => {
+    app.post("/", validateStream(schema), respond);
+
+    const object = await request(app).post("/").send({ name: "Ada" });
+    const truncated = await request(app)
+      .post("/")
+      .type("json")
+      .send('[{"name":"Ada","email":"ada@example.com"}');
+
+    expect(object.body.issues).toEqual([
+      expect.objectContaining({ path: [], message: "Expected a JSON array" }),
+    ]);
+    expect(truncated.body.issues).toEqual([
+      expect.objectContaining({
+        path: [],
+        message: "Unexpected end of JSON array",
+      }),
+    ]);
+  });
+
+  it("should reject trailing commas and data after the array", async () => {
+    app.post("/", validateStream(z.number()), respond);
+
+    const send = (body: string) =>
+      request(app).post("/").type("json").send(body);
+    const trailing = await send("[1,2,]");
+    const garbage = await send("[1,2] garbage {");
+    const second = await send("[1,2][3]");
+    const spaces = await send(" [1,2] \n");
+
+    expect(trailing.body.issues).toEqual([
+      expect.objectContaining({ path: [2], message: "Invalid JSON" }),
+    ]);
+    for (const response of [garbage, second]) {
+      expect(response.body.values).toBeUndefined();
+      expect(response.body.issues).toEqual([
+        expect.objectContaining({
+          path: [],
+          message: "Unexpected data after JSON array",
+        }),
+      ]);
+    }
+    expect(spaces.body.values).toEqual([1, 2]);
+  });
+
+  it("should stop at items larger than maxItemBytes", async () => {
+    app.post("/", validateStream(z.string(), { maxItemBytes: 16 }), respond);
+    app.post(
+      "/throw",
+      validateStream(z.string(), { maxItemBytes: 16, throwErrors: true }),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const unclosed = await request(app)
+      .post("/")
+      .type("json")
+      .send(`["${"a".repeat(64)}`);
+    const line = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(`"ok"\n"${"a".repeat(64)}"\n`);
+    const thrown = await request(app)
+      .post("/throw")
+      .type("json")
+      .send(`["${"a".repeat(64)}"]`);
+
+    for (const response of [unclosed, line]) {
+      expect(response.body.issues.at(-1)).toEqual(
+        expect.objectContaining({
+          path: [],
+          message: "Item larger than 16 bytes",
+          params: { limit: 16, status: 413 },
+        }),
+      );
+    }
+    expect(thrown.status).toBe(413);
+  });
+
+  it("should check the guards on every item", async () => {
+    app.post(
+      "/",
+      validateStream(z.any(), { guards: { maxDepth: 2 } }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(ndjson({ a: 1 }, { a: { b: { c: 1 } } }));
+
+    expect(response.body.issues).toEqual([
+      expect.objectContaining({
+        path: [1, "a", "b"],
+        params: expect.objectContaining({ guard: "maxDepth" }),
+      }),
+    ]);
+  });
+
+  it("should validate bodies already parsed by express.json()", async () => {
+    app.use(express.json());
+    app.post("/", validateStream(schema), respond);
+
+    const response = await request(app)
+      .post("/")
+      .send([
+        { name: "Ada", email: "ada@example.com" },
+        { name: "Alan", email: "alan" },
+      ]);
+
+    expect(response.body.issues).toEqual([
+      expect.objectContaining({ path: [1, "email"] }),
+    ]);
+  });
+
+  it("should yield the valid items in iterate mode", async () => {
+    app.post(
+      "/",
+      validateStream(schema, { mode: "iterate" }),
+      async (req: StreamRequest<z.output<typeof schema>>, res) => {
+        const names: string[] = [];
+        for await (const item of req.validationStream!) names.push(item.name);
+        res.json({
+          names,
+          count: req.validationStream!.count,
+          issues: req.validationErrors?.body?.issues,
+        });
+      },
+    );
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(
+        ndjson(
+          { name: "Ada", email: "ada@example.com" },
+          { name: "Alan", email: "alan" },
+          { name: "Grace", email: "grace@example.com" },
+        ),
+      );
+
+    expect(response.body).toEqual({
+      names: ["Ada", "Grace"],
+      count: 3,
+      issues: [expect.objectContaining({ path: [1, "email"] })],
+    });
+  });
+
+  it("should throw from the iterator once too many items are invalid", async () => {
+    app.post(
+      "/",
+      validateStream(schema, { mode: "iterate", maxErrors: 0 }),
+      async (req: StreamRequest, res, next) => {
+        try {
+          for await (const _ of req.validationStream!);
+          res.sendStatus(204);
+        } catch (error) {
+          next(error);
+        }
+      },
+    );
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(ndjson({ name: "Ada" }, { name: "Alan" }));
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors.map((error: any) => error.pointer)).toEqual([
+      "/0/email",
+      "",
+    ]);
+  });
+
+  it("should forward errors with throwErrors", async () => {
+    app.post("/", validateStream(schema, { throwErrors: true }), respond);
+    app.use(validationErrorHandler());
+
+    const response = await request(app)
+      .post("/")
+      .send([
+        { name: "Ada", email: "ada@example.com" },
+        { name: "Alan", email: "alan" },
+      ]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      expect.objectContaining({ part: "body", pointer: "/1/email" }),
+    ]);
+  });
+
+  it("should redact sensitive values", async () => {
+    const secret = z.object({
+      token: z.string().min(10).meta({ sensitive: true }),
+    });
+    app.post("/", validateStream(secret), respond);
+
+    const response = await request(app)
+      .post("/")
+      .type("application/x-ndjson")
+      .send(ndjson({ token: "short" }));
+
+    expect(JSON.stringify(response.body)).not.toContain("short");
+    expect(response.body.issues[0].path).toEqual([0, "token"]);
+  });
+});
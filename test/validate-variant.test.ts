@@ -0,0 +1,165 @@
+import express, { Express } from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  expressZodValidations,
+  validate,
+  validateVariant,
+  validationErrorHandler,
+  VariantError,
+  type ValidationRequest,
+} from "../src/index";
+
+const variants = {
+  "1": { body: z.object({ name: z.string() }) },
+  "2": {
+    body: z.object({ firstName: z.string(), lastName: z.string() }),
+  },
+};
+
+describe("validateVariant", () => {
+  let app: Express;
+
+  const respond = (req: ValidationRequest, res: any) => {
+    res.json({
+      variant: req.validationVariant,
+      body: req.validationValues?.body,
+      failed: !!req.validationErrors?.body,
+    });
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it("should pick the variant from a header", async () => {
+    app.post(
+      "/users",
+      validateVariant({ header: "accept-version" }, variants),
+      respond,
+    );
+
+    const v1 = await request(app)
+      .post("/users")
+      .set("Accept-Version", "1")
+      .send({ name: "John" });
+    const v2 = await request(app)
+      .post("/users")
+      .set("Accept-Version", "2")
+      .send({ name: "John" });
+
+    expect(v1.body).toEqual({
+      variant: "1",
+      body: { name: "John" },
+      failed: false,
+    });
+    expect(v2.body).toEqual({ variant: "2", failed: true });
+  });
+
+  it("should pick the variant from a route param", async () => {
+    app.post(
+      "/api/:version/users",
+      validate.select(
+        { param: "version" },
+        {
+          v1: variants["1"],
+          v2: variants["2"],
+        },
+      ),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/api/v2/users")
+      .send({ firstName: "John", lastName: "Doe" });
+
+    expect(response.body).toEqual({
+      variant: "v2",
+      body: { firstName: "John", lastName: "Doe" },
+      failed: false,
+    });
+  });
+
+  it("should pick the variant from a function", async () => {
+    app.post(
+      "/users",
+      validateVariant(
+        (req) => (req.is("application/vnd.v2+json") ? "2" : "1"),
+        variants,
+      ),
+      respond,
+    );
+
+    const response = await request(app).post("/users").send({ name: "John" });
+
+    expect(response.body.variant).toBe("1");
+  });
+
+  it("should use the default variant when none is requested", async () => {
+    app.post(
+      "/users",
+      validateVariant({ query: "version" }, variants, { defaultVariant: "2" }),
+      respond,
+    );
+
+    const response = await request(app)
+      .post("/users")
+      .send({ firstName: "John", lastName: "Doe" });
+
+    expect(response.body.variant).toBe("2");
+    expect(response.body.failed).toBe(false);
+  });
+
+  it("should forward a VariantError when no variant applies", async () => {
+    let caught: unknown;
+
+    app.post(
+      "/users",
+      validateVariant({ header: "accept-version" }, variants),
+      respond,
+    );
+    app.use((err: unknown, req: any, res: any, next: any) => {
+      caught = err;
+      res.status(400).end();
+    });
+
+    await request(app)
+      .post("/users")
+      .set("Accept-Version", "3")
+      .send({ name: "John" });
+
+    expect(caught).toBeInstanceOf(VariantError);
+    expect((caught as VariantError).variant).toBe("3");
+    expect((caught as VariantError).message).toBe(
+      'Unsupported request variant "3", expected one of: 1, 2',
+    );
+  });
+
+  it("should apply options and render problem details", async () => {
+    app.use(expressZodValidations({ throwErrors: false }));
+    app.post(
+      "/users",
+      validateVariant({ header: "accept-version" }, variants, {
+        throwErrors: true,
+      }),
+      respond,
+    );
+    app.use(validationErrorHandler());
+
+    const invalid = await request(app)
+      .post("/users")
+      .set("Accept-Version", "1")
+      .send({});
+    const missing = await request(app).post("/users").send({});
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors[0].part).toBe("body");
+    expect(missing.status).toBe(400);
+    expect(missing.headers["content-type"]).toContain(
+      "application/problem+json",
+    );
+    expect(missing.body.title).toBe("Unsupported variant");
+  });
+});